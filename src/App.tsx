@@ -3,8 +3,17 @@ import { useAppStore } from './store/appStore';
 import { useDB } from './hooks/useDB';
 import SongBrowser from './components/SongBrowser';
 import VersionView from './components/VersionView';
-import { Plus } from 'lucide-react';
+import BackupDialog from './components/BackupDialog';
+import RelinkFoldersDialog from './components/RelinkFoldersDialog';
+import SettingsDialog from './components/SettingsDialog';
+import SearchBox from './components/SearchBox';
+import TagLibraryDialog from './components/TagLibraryDialog';
+import ReviewerPicker from './components/ReviewerPicker';
+import ReviewersDialog from './components/ReviewersDialog';
+import { Plus, Archive, FolderSync, Lock, Settings, Tag } from 'lucide-react';
 import { isFileSystemAccessSupported } from '@lib/fileSystem';
+import { SongWithVersions } from '@types';
+
 
 /**
  * Main application component
@@ -12,8 +21,22 @@ import { isFileSystemAccessSupported } from '@lib/fileSystem';
  */
 function App() {
   const dbOps = useDB();
-  const { songs, setSongs, setTags, selectedVersion } = useAppStore();
+  const {
+    songs, setSongs, setTags, selectedSong, setSelectedSong, selectedVersion, setSelectedVersion, songAccess, setSongAccess, setMismatchThresholds,
+    setSmartViews, setReviewers, setCurrentReviewerId, setNotes,
+  } = useAppStore();
   const [isSupported, setIsSupported] = useState(true);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showTags, setShowTags] = useState(false);
+  const [showReviewers, setShowReviewers] = useState(false);
+  const [relinkSongIds, setRelinkSongIds] = useState<number[] | null>(null);
+
+  const [isRequestingAccess, setIsRequestingAccess] = useState(false);
+
+  const missingSongs = songs.filter((s) => songAccess[s.id!] === 'missing');
+  const lockedSongs = songs.filter((s) => songAccess[s.id!] === 'prompt');
+  const deniedSongs = songs.filter((s) => songAccess[s.id!] === 'denied');
 
   // Check browser compatibility
   useEffect(() => {
@@ -22,22 +45,127 @@ function App() {
 
   // Load initial data on mount
   useEffect(() => {
-    loadData();
+    const init = async () => {
+      try {
+        await dbOps.cleanupFileHandles();
+      } catch (error) {
+        console.error('File handle cleanup failed:', error);
+      }
+      await refreshAccess();
+      await loadData();
+    };
+    init();
   }, []);
 
   const loadData = async () => {
     try {
-      const [loadedSongs, loadedTags] = await Promise.all([
+      const [loadedSongs, loadedTags, loadedThresholds, loadedViews, loadedReviewers, currentReviewerId] = await Promise.all([
         dbOps.getSongs(),
         dbOps.getTags(),
+        dbOps.getMismatchThresholds(),
+        dbOps.getSmartViews(),
+        dbOps.getReviewers(),
+        dbOps.getCurrentReviewerId(),
       ]);
       setSongs(loadedSongs);
       setTags(loadedTags);
+      setMismatchThresholds(loadedThresholds);
+      setSmartViews(loadedViews);
+      setReviewers(loadedReviewers);
+      setCurrentReviewerId(currentReviewerId);
     } catch (error) {
       console.error('Failed to load data:', error);
     }
   };
 
+  // Check every song folder's permission and flag missing files before the browser renders them
+  const refreshAccess = async () => {
+    try {
+      const access = await dbOps.checkSongsAccess();
+      setSongAccess(access);
+      return access;
+    } catch (error) {
+      console.error('Failed to check song folders:', error);
+      return {};
+    }
+  };
+
+  const handleRelinked = async () => {
+    await refreshAccess();
+    await loadData();
+  };
+
+  // Re-grant every locked folder from this one click, then re-check files now they're readable
+  const handleGrantAccess = async () => {
+    setIsRequestingAccess(true);
+    try {
+      await dbOps.requestSongAccess(lockedSongs.map((s) => s.id!));
+      await refreshAccess();
+      await loadData();
+    } catch (error) {
+      console.error('Failed to request folder access:', error);
+    } finally {
+      setIsRequestingAccess(false);
+    }
+  };
+
+  const handleRestored = async (closeDialog: boolean) => {
+    if (closeDialog) setShowBackup(false);
+    setSelectedSong(null);
+    const access = await refreshAccess();
+    await loadData();
+    setRelinkSongIds(
+      Object.entries(access)
+        .filter(([, state]) => state === 'missing')
+        .map(([songId]) => parseInt(songId))
+    );
+  };
+
+  // New settings can change the selected format and mismatch flag of any version, including the open one
+  const handleSettingsSaved = async () => {
+    try {
+      const [updatedSongs, thresholds] = await Promise.all([dbOps.getSongs(), dbOps.getMismatchThresholds()]);
+      setSongs(updatedSongs);
+      setMismatchThresholds(thresholds);
+      refreshSelectedVersion(updatedSongs);
+    } catch (error) {
+      console.error('Failed to reload songs:', error);
+    }
+  };
+
+  // Renamed, merged or deleted tags show up on every version that carried them
+  const handleTagsChanged = async () => {
+    try {
+      const updatedSongs = await dbOps.getSongs();
+      setSongs(updatedSongs);
+      refreshSelectedVersion(updatedSongs);
+    } catch (error) {
+      console.error('Failed to reload songs:', error);
+    }
+  };
+
+  // Adding the first reviewer or deleting one changes ratings, deleting one also changes note authors
+  const handleReviewersChanged = async () => {
+    try {
+      const updatedSongs = await dbOps.getSongs();
+      setSongs(updatedSongs);
+      // The version header reads each reviewer's rating from the open song
+      const refreshedSong = updatedSongs.find((s) => s.id === selectedSong?.id);
+      if (refreshedSong) setSelectedSong(refreshedSong);
+      refreshSelectedVersion(updatedSongs);
+      if (selectedVersion) setNotes(await dbOps.getNotes(selectedVersion.id!));
+    } catch (error) {
+      console.error('Failed to reload songs:', error);
+    }
+  };
+
+  const refreshSelectedVersion = (updatedSongs: SongWithVersions[]) => {
+    const refreshed = updatedSongs
+      .flatMap((song) => song.versions)
+      .find((v) => v.id === selectedVersion?.id);
+    if (refreshed) setSelectedVersion(refreshed);
+  };
+
   const handleAddSongFolder = async () => {
     try {
       const newSong = await dbOps.addSongFolder();
@@ -70,10 +198,74 @@ function App() {
   return (
     <div className="h-screen flex flex-col bg-gray-900 text-gray-100">
       {/* Header */}
-      <header className="bg-gray-800 border-b border-gray-700 px-4 py-3">
-        <h1 className="text-xl font-semibold">Song Notes</h1>
+      <header className="bg-gray-800 border-b border-gray-700 px-4 py-3 flex items-center gap-3">
+        <h1 className="text-xl font-semibold flex-1">Song Notes</h1>
+        <SearchBox />
+        <ReviewerPicker onManage={() => setShowReviewers(true)} />
+        <button
+          onClick={() => setShowBackup(true)}
+          className="btn btn-ghost btn-sm flex items-center gap-2"
+          title="Backup & restore"
+        >
+          <Archive size={16} />
+          Backup
+        </button>
+        <button
+          onClick={() => setShowTags(true)}
+          className="btn btn-ghost btn-sm flex items-center gap-2"
+          title="Rename, merge and delete tags"
+        >
+          <Tag size={16} />
+          Tags
+        </button>
+        <button
+          onClick={() => setShowSettings(true)}
+          className="btn btn-ghost btn-sm flex items-center gap-2"
+          title="Settings"
+        >
+          <Settings size={16} />
+          Settings
+        </button>
       </header>
 
+      {lockedSongs.length > 0 && (
+        <div className="px-4 py-2 bg-blue-900/30 border-b border-blue-700/50 text-sm text-blue-200 flex items-center gap-3">
+          <span className="flex-1">
+            {lockedSongs.length} song folder(s) need permission again. Your browser asks after every restart.
+          </span>
+          <button
+            onClick={handleGrantAccess}
+            disabled={isRequestingAccess}
+            className="btn btn-ghost btn-sm flex items-center gap-1"
+          >
+            <Lock size={14} />
+            Grant access
+          </button>
+        </div>
+      )}
+
+      {deniedSongs.length > 0 && (
+        <div className="px-4 py-2 bg-red-900/30 border-b border-red-700/50 text-sm text-red-200">
+          Access was blocked for {deniedSongs.length} song folder(s). Allow file access for this site in the
+          browser's site settings, then reload.
+        </div>
+      )}
+
+      {missingSongs.length > 0 && (
+        <div className="px-4 py-2 bg-yellow-900/30 border-b border-yellow-700/50 text-sm text-yellow-200 flex items-center gap-3">
+          <span className="flex-1">
+            {missingSongs.length} song folder(s) can't be found. They may have been moved or restored from a backup.
+          </span>
+          <button
+            onClick={() => setRelinkSongIds(missingSongs.map((s) => s.id!))}
+            className="btn btn-ghost btn-sm flex items-center gap-1"
+          >
+            <FolderSync size={14} />
+            Re-link folders
+          </button>
+        </div>
+      )}
+
       {/* Main content area */}
       <div className="flex-1 flex overflow-hidden">
         {/* Left sidebar - Song browser */}
@@ -99,6 +291,30 @@ function App() {
           )}
         </div>
       </div>
+
+      {showBackup && (
+        <BackupDialog onClose={() => setShowBackup(false)} onRestored={handleRestored} />
+      )}
+
+      {showSettings && (
+        <SettingsDialog onClose={() => setShowSettings(false)} onSaved={handleSettingsSaved} />
+      )}
+
+      {showTags && (
+        <TagLibraryDialog onClose={() => setShowTags(false)} onChanged={handleTagsChanged} />
+      )}
+
+      {showReviewers && (
+        <ReviewersDialog onClose={() => setShowReviewers(false)} onChanged={handleReviewersChanged} />
+      )}
+
+      {relinkSongIds && !showBackup && (
+        <RelinkFoldersDialog
+          songs={songs.filter((s) => relinkSongIds.includes(s.id!))}
+          onRelinked={handleRelinked}
+          onClose={() => setRelinkSongIds(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,42 +1,129 @@
-import { useEffect, useRef, useState, useMemo } from 'react';
+import { Fragment, useEffect, useRef, useState, useMemo } from 'react';
 import WaveSurfer from 'wavesurfer.js';
-import RegionsPlugin from 'wavesurfer.js/plugins/regions';
-import { Play, Pause, SkipBack, SkipForward } from 'lucide-react';
-import { db } from '@lib/db';
+import RegionsPlugin, { Region } from 'wavesurfer.js/plugins/regions';
+import { Play, Pause, SkipBack, SkipForward, Repeat, X } from 'lucide-react';
+import { db, NoteTimestamp } from '@lib/db';
 import { deserializeHandle, createAudioURL } from '@lib/fileSystem';
 import { useAppStore } from '../store/appStore';
+import { useDB } from '@hooks/useDB';
+import { useImageURLs } from '@hooks/useImageURLs';
+import { replaceTimeRange } from '@lib/timestamps';
+import { isTypingTarget } from '@lib/keyboard';
+
+// Width of the marker drawn for notes without an end time (seconds)
+const POINT_NOTE_LENGTH = 0.5;
+const SELECTION_COLOR = 'rgba(59, 130, 246, 0.3)';
+const LOOP_REGION_ID = 'loop';
+const LOOP_COLOR = 'rgba(34, 197, 94, 0.2)';
+const NOTE_COLOR = '#f59e0b'; // Amber, for notes without an author
+
+// Dragged times keep hundredths, like the timestamp chips they end up in
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 100) / 100;
+}
+
+// Region fill in a note author's color, regions need the opacity baked in
+function toRegionColor(hex: string, alpha: number): string {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+}
+
+// Note regions carry the note id, anything else is a fresh drag selection
+function getRegionNoteId(region: Region): number | null {
+  return region.id.startsWith('note-') ? parseInt(region.id.slice(5)) : null;
+}
+
+// Markers for a note's further timestamps are "mark-<note id>-<position>" and can't be dragged
+function getMarkNoteId(region: Region): number | null {
+  return region.id.startsWith('mark-') ? parseInt(region.id.split('-')[1]) : null;
+}
 
 /**
  * Audio player component with waveform visualization
  * Uses WaveSurfer.js for audio playback and visualization
+ * Images pinned to a time show as thumbnails above the waveform
+ * An A/B loop can be set with [ and ], cleared with \, or dragged in loop mode
  */
 interface AudioPlayerProps {
   versionId: number;
   onAddNote?: (timestamp: number) => void;
+  onAddRangeNote?: (start: number, end: number) => void;
 }
 
-export default function AudioPlayer({ versionId, onAddNote }: AudioPlayerProps) {
+export default function AudioPlayer({ versionId, onAddNote, onAddRangeNote }: AudioPlayerProps) {
   const waveformRef = useRef<HTMLDivElement>(null);
   const wavesurferRef = useRef<WaveSurfer | null>(null);
   const onAddNoteRef = useRef(onAddNote);
+  const onAddRangeNoteRef = useRef(onAddRangeNote);
 
-  // Keep ref in sync with prop
+  // Keep refs in sync with props
   useEffect(() => {
     onAddNoteRef.current = onAddNote;
-  }, [onAddNote]);
+    onAddRangeNoteRef.current = onAddRangeNote;
+  }, [onAddNote, onAddRangeNote]);
 
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
-  const { playingVersionId, setPlayingVersionId, notes, seekRequest, requestSeek } = useAppStore();
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLoopMode, setIsLoopMode] = useState(false);
+  const { playingVersionId, setPlayingVersionId, notes, setNotes, images, setImages, setViewingImageId, setHighlightedNoteId, seekRequest, requestSeek, selectedVersion, loop, setLoop, isComparing, reviewers } = useAppStore();
+  const dbOps = useDB();
+
+  // Reload the audio when another format of this version is picked
+  const formatIndex = useAppStore((state) =>
+    state.songs.flatMap((song) => song.versions).find((v) => v.id === versionId)?.selectedFormatIndex
+  );
+
+  const activeLoop = loop?.versionId === versionId ? loop : null;
+  const loopRef = useRef(activeLoop);
+  const isLoopModeRef = useRef(isLoopMode);
+  useEffect(() => {
+    loopRef.current = activeLoop;
+    isLoopModeRef.current = isLoopMode;
+  }, [activeLoop, isLoopMode]);
+
+  // Position to pick up from after the audio is swapped for another format
+  const resumeRef = useRef<{ time: number; playing: boolean } | null>(null);
 
   // Filter notes for this version
   const versionNotes = useMemo(() =>
-    notes.filter(n => n.versionId === versionId && n.timestamp !== null),
+    notes.filter(n => n.versionId === versionId && n.startTime !== null),
     [notes, versionId]
   );
 
+  // Regions take the color of the reviewer who wrote the note
+  const noteColors = useMemo(() => {
+    const colors = new Map<number, string>();
+    for (const note of notes) {
+      const author = reviewers.find((r) => r.id === note.authorId);
+      colors.set(note.id!, author?.color ?? NOTE_COLOR);
+    }
+    return colors;
+  }, [notes, reviewers]);
+
+  // Region event handlers are registered once, so they read notes through a ref
+  const notesRef = useRef(notes);
+  useEffect(() => {
+    notesRef.current = notes;
+  }, [notes]);
+
+  // Timestamps after the first in each note, the first one is the note's own region
+  const [extraTimestamps, setExtraTimestamps] = useState<NoteTimestamp[]>([]);
+  useEffect(() => {
+    dbOps.getVersionTimestamps(versionId)
+      .then((timestamps) => setExtraTimestamps(timestamps.filter((t) => t.position > 0)))
+      .catch((error) => console.error('Failed to load note timestamps:', error));
+  }, [notes, versionId]);
+
+  // Images pinned to a moment of this version
+  const pinnedImages = useMemo(() =>
+    images.filter(i => i.versionId === versionId && i.timestamp != null),
+    [images, versionId]
+  );
+  const imageURLs = useImageURLs(pinnedImages);
+
   // Debug: log when component mounts/unmounts
   useEffect(() => {
     // console.log(`[AudioPlayer ${versionId}] MOUNTED`);
@@ -50,6 +137,7 @@ export default function AudioPlayer({ versionId, onAddNote }: AudioPlayerProps)
     let url: string | null = null;
 
     const loadAudio = async () => {
+      setLoadError(null);
       try {
         const version = await db.versions.get(versionId);
         if (!version || !version.formats || version.formats.length === 0) return;
@@ -59,12 +147,20 @@ export default function AudioPlayer({ versionId, onAddNote }: AudioPlayerProps)
         if (!selectedFormat) return;
 
         const fileHandle = await deserializeHandle(selectedFormat.fileHandle);
-        if (!fileHandle) return;
+        if (!fileHandle || selectedFormat.missing) {
+          setLoadError(`${selectedFormat.fileName} can't be found. Re-link the song folder to play it.`);
+          return;
+        }
 
         url = await createAudioURL(fileHandle as FileSystemFileHandle);
         setAudioUrl(url);
-      } catch (error) {
+      } catch (error: any) {
         console.error('Error loading audio file:', error);
+        setLoadError(
+          error?.name === 'NotFoundError'
+            ? 'The audio file was moved or deleted. Re-link the song folder to play it.'
+            : 'The audio file could not be opened. Folder access may need to be granted again.'
+        );
       }
     };
 
@@ -75,7 +171,7 @@ export default function AudioPlayer({ versionId, onAddNote }: AudioPlayerProps)
         URL.revokeObjectURL(url);
       }
     };
-  }, [versionId]);
+  }, [versionId, formatIndex]);
 
   const [regionsPlugin, setRegionsPlugin] = useState<RegionsPlugin | null>(null);
   const [isReady, setIsReady] = useState(false);
@@ -101,9 +197,10 @@ export default function AudioPlayer({ versionId, onAddNote }: AudioPlayerProps)
       plugins: [],
     });
 
-    // Register and store Regions plugin
+    // Register and store Regions plugin, dragging on empty waveform selects a range for a new note
     try {
       const wsRegions = wavesurfer.registerPlugin(RegionsPlugin.create());
+      wsRegions.enableDragSelection({ color: SELECTION_COLOR });
       setRegionsPlugin(wsRegions);
     } catch (error) {
        console.error('Failed to initialize RegionsPlugin:', error);
@@ -116,6 +213,13 @@ export default function AudioPlayer({ versionId, onAddNote }: AudioPlayerProps)
     wavesurfer.on('ready', () => {
       setDuration(wavesurfer.getDuration());
       setIsReady(true);
+
+      const resume = resumeRef.current;
+      resumeRef.current = null;
+      if (resume) {
+        wavesurfer.setTime(Math.min(resume.time, wavesurfer.getDuration()));
+        if (resume.playing) wavesurfer.play();
+      }
     });
 
     wavesurfer.on('decode', () => {
@@ -126,7 +230,28 @@ export default function AudioPlayer({ versionId, onAddNote }: AudioPlayerProps)
       setCurrentTime(wavesurfer.getCurrentTime());
     });
 
+    // Jump back to the loop start when playback runs past the loop end
+    let lastTime = 0;
+    wavesurfer.on('timeupdate', (time) => {
+      const activeLoop = loopRef.current;
+      const isContinuous = time >= lastTime && time - lastTime < 0.5; // Not a seek
+      if (activeLoop && wavesurfer.isPlaying() && isContinuous && lastTime < activeLoop.end && time >= activeLoop.end) {
+        wavesurfer.setTime(activeLoop.start);
+        lastTime = activeLoop.start;
+        return;
+      }
+      lastTime = time;
+    });
+
+    // A loop that ends at the very end can finish before timeupdate catches it, loop from here instead
     wavesurfer.on('finish', () => {
+      const activeLoop = loopRef.current;
+      if (activeLoop && activeLoop.end >= wavesurfer.getDuration() - 0.5) {
+        wavesurfer.setTime(activeLoop.start);
+        lastTime = activeLoop.start;
+        wavesurfer.play();
+        return;
+      }
       setIsPlaying(false);
       setPlayingVersionId(null);
     });
@@ -142,6 +267,7 @@ export default function AudioPlayer({ versionId, onAddNote }: AudioPlayerProps)
     wavesurferRef.current = wavesurfer;
 
     return () => {
+      resumeRef.current = { time: wavesurfer.getCurrentTime(), playing: wavesurfer.isPlaying() };
       try {
         wavesurfer.pause();
       } catch (e) {
@@ -153,36 +279,144 @@ export default function AudioPlayer({ versionId, onAddNote }: AudioPlayerProps)
     };
   }, [audioUrl, setPlayingVersionId]);
 
+  // Handle region events: new selections, moved or resized notes, clicks
+  useEffect(() => {
+    if (!regionsPlugin) return;
+
+    let pendingRegion: Region | null = null;
+
+    const unsubscribeCreated = regionsPlugin.on('region-created', (region) => {
+      if (getRegionNoteId(region) !== null || getMarkNoteId(region) !== null || region.id === LOOP_REGION_ID) return;
+
+      // In loop mode the selection becomes the loop instead of a note
+      if (isLoopModeRef.current) {
+        region.remove();
+        setLoop({ versionId, start: region.start, end: region.end });
+        return;
+      }
+
+      // Keep only the latest selection until its note is saved
+      pendingRegion?.remove();
+      pendingRegion = region;
+      onAddRangeNoteRef.current?.(roundTime(region.start), roundTime(region.end));
+    });
+
+    const unsubscribeUpdated = regionsPlugin.on('region-updated', async (region) => {
+      if (region.id === LOOP_REGION_ID) {
+        setLoop({ versionId, start: region.start, end: region.end });
+        return;
+      }
+
+      const noteId = getRegionNoteId(region);
+      const note = notesRef.current.find((n) => n.id === noteId);
+      if (!note) return;
+
+      // Point notes keep their fixed marker width when only moved
+      const start = roundTime(region.start);
+      const isPoint = note.endTime === null && Math.abs(region.end - region.start - POINT_NOTE_LENGTH) < 0.01;
+      const end = isPoint ? null : Math.max(roundTime(region.end), start + 0.01);
+      const content = replaceTimeRange(note.content, { start, end });
+
+      try {
+        await dbOps.updateNote(note.id!, content, start, end);
+        setNotes(notesRef.current.map((n) =>
+          n.id === note.id ? { ...n, content, startTime: start, endTime: end, updatedAt: new Date().toISOString() } : n
+        ));
+      } catch (error) {
+        console.error('Failed to update note range:', error);
+      }
+    });
+
+    const unsubscribeClicked = regionsPlugin.on('region-clicked', (region) => {
+      const noteId = getRegionNoteId(region) ?? getMarkNoteId(region);
+      if (noteId !== null) setHighlightedNoteId(noteId);
+    });
+
+    return () => {
+      unsubscribeCreated();
+      unsubscribeUpdated();
+      unsubscribeClicked();
+    };
+  }, [regionsPlugin]);
+
   // Update regions when notes change or plugin is initialized and ready
   useEffect(() => {
     if (!regionsPlugin || !isReady) return;
 
-    // Clear existing regions
+    // Clear existing regions, including a pending selection once its note exists
     regionsPlugin.clearRegions();
 
     // Add regions for notes
     versionNotes.forEach(note => {
-      if (note.timestamp !== null) {
+      if (note.startTime !== null) {
         try {
           regionsPlugin.addRegion({
-            start: note.timestamp,
-            end: note.timestamp + 0.5, // Small but visible duration
+            id: `note-${note.id}`,
+            start: note.startTime,
+            end: note.endTime ?? note.startTime + POINT_NOTE_LENGTH, // Small but visible duration
             content: ' ',
-            color: 'rgba(245, 158, 11, 0.9)', // High opacity Amber
-            drag: false,
-            resize: false,
+            color: toRegionColor(noteColors.get(note.id!) ?? NOTE_COLOR, note.endTime !== null ? 0.25 : 0.9),
+            drag: true,
+            resize: true,
           });
         } catch (e) {
           console.error('Error adding region:', e);
         }
       }
     });
-  }, [versionNotes, regionsPlugin, isReady]);
 
-  // Handle global seek requests
+    extraTimestamps.forEach((timestamp) => {
+      regionsPlugin.addRegion({
+        id: `mark-${timestamp.noteId}-${timestamp.position}`,
+        start: timestamp.start,
+        end: timestamp.end ?? timestamp.start + POINT_NOTE_LENGTH,
+        color: toRegionColor(noteColors.get(timestamp.noteId) ?? NOTE_COLOR, timestamp.end !== null ? 0.12 : 0.5), // Fainter
+        drag: false,
+        resize: false,
+      });
+    });
+
+    if (activeLoop) {
+      regionsPlugin.addRegion({
+        id: LOOP_REGION_ID,
+        start: activeLoop.start,
+        end: activeLoop.end,
+        color: LOOP_COLOR,
+        drag: true,
+        resize: true,
+      });
+    }
+  }, [versionNotes, noteColors, extraTimestamps, activeLoop, regionsPlugin, isReady]);
+
+  // [ and ] set the loop's A and B points at the playhead, \ clears it
+  useEffect(() => {
+    if (selectedVersion?.id !== versionId) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const wavesurfer = wavesurferRef.current;
+      if (!wavesurfer || !duration || isTypingTarget(e.target)) return;
+
+      const time = wavesurfer.getCurrentTime();
+      if (e.key === '[') {
+        const end = activeLoop && activeLoop.end > time ? activeLoop.end : duration;
+        setLoop({ versionId, start: time, end });
+      } else if (e.key === ']') {
+        const start = activeLoop && activeLoop.start < time ? activeLoop.start : 0;
+        setLoop({ versionId, start, end: time });
+      } else if (e.key === '\\') {
+        setLoop(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedVersion, versionId, duration, activeLoop, setLoop]);
+
+  // Handle global seek requests, each one once, so reloading a format doesn't replay an old seek
+  const handledSeekRef = useRef<typeof seekRequest>(null);
   useEffect(() => {
-    if (seekRequest && seekRequest.versionId === versionId && wavesurferRef.current) {
+    if (seekRequest && seekRequest !== handledSeekRef.current && seekRequest.versionId === versionId && wavesurferRef.current) {
       if (seekRequest.time >= 0 && seekRequest.time <= duration) {
+        handledSeekRef.current = seekRequest;
         wavesurferRef.current.seekTo(seekRequest.time / duration);
         wavesurferRef.current.play();
         setIsPlaying(true);
@@ -199,15 +433,15 @@ export default function AudioPlayer({ versionId, onAddNote }: AudioPlayerProps)
     // console.log(`[AudioPlayer ${versionId}] State update...`);
   }, [isPlaying, playingVersionId, versionId]);
 
-  // Pause this player if another version starts playing
+  // Pause this player if another version starts playing or compare mode opens
   useEffect(() => {
-    if (playingVersionId !== null && playingVersionId !== versionId && isPlaying) {
+    if (((playingVersionId !== null && playingVersionId !== versionId) || isComparing) && isPlaying) {
       if (wavesurferRef.current) {
         wavesurferRef.current.pause();
         setIsPlaying(false);
       }
     }
-  }, [playingVersionId, versionId, isPlaying]);
+  }, [playingVersionId, versionId, isPlaying, isComparing]);
 
   const handlePlayPause = () => {
     if (!wavesurferRef.current) return;
@@ -229,6 +463,28 @@ export default function AudioPlayer({ versionId, onAddNote }: AudioPlayerProps)
     wavesurferRef.current.seekTo(newTime / duration);
   };
 
+  const handleImageMarkerClick = (imageId: number, time: number) => {
+    requestSeek(versionId, time);
+    setViewingImageId(imageId);
+  };
+
+  // Images dropped on the waveform are pinned where they land
+  const handleWaveformDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!duration) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const time = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)) * duration;
+
+    try {
+      const added = await dbOps.addImageFiles(versionId, Array.from(e.dataTransfer.files), time);
+      if (added > 0) setImages(await dbOps.getImages(versionId));
+    } catch (error) {
+      console.error('Failed to add images:', error);
+    }
+  };
+
   const formatTime = (time: number) => {
     const mins = Math.floor(time / 60);
     const secs = Math.floor(time % 60);
@@ -237,8 +493,50 @@ export default function AudioPlayer({ versionId, onAddNote }: AudioPlayerProps)
 
   return (
     <div className="p-4">
+      {loadError && (
+        <div className="mb-3 h-20 flex items-center justify-center rounded bg-red-900/20 border border-red-800/50 text-sm text-red-300 px-4 text-center">
+          {loadError}
+        </div>
+      )}
+
+      {/* Pinned image markers */}
+      {pinnedImages.length > 0 && duration > 0 && (
+        <div className="relative h-9 mb-1">
+          {pinnedImages.map((image) => {
+            const left = (image.timestamp! / duration) * 100;
+            const width = image.endTime != null ? ((image.endTime - image.timestamp!) / duration) * 100 : 0;
+
+            return (
+              <Fragment key={image.id}>
+                {width > 0 && (
+                  <div
+                    className="absolute bottom-0 h-0.5 bg-sky-400/70"
+                    style={{ left: `${left}%`, width: `${width}%` }}
+                  />
+                )}
+                <button
+                  onClick={() => handleImageMarkerClick(image.id!, image.timestamp!)}
+                  className="absolute top-0 -translate-x-1/2 w-10 h-8 rounded border border-sky-400/70 bg-gray-900 overflow-hidden hover:border-sky-300 hover:z-10"
+                  style={{ left: `${left}%` }}
+                  title={`${image.caption || image.fileName} @ ${formatTime(image.timestamp!)}`}
+                >
+                  {imageURLs[image.id!] && (
+                    <img src={imageURLs[image.id!]} alt="" className="w-full h-full object-cover" />
+                  )}
+                </button>
+              </Fragment>
+            );
+          })}
+        </div>
+      )}
+
       {/* Waveform */}
-      <div ref={waveformRef} className="mb-3" />
+      <div
+        ref={waveformRef}
+        className="mb-3"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={handleWaveformDrop}
+      />
 
       {/* Controls */}
       <div className="flex items-center gap-4">
@@ -279,6 +577,23 @@ export default function AudioPlayer({ versionId, onAddNote }: AudioPlayerProps)
           <span>+ Add Note</span>
         </button>
 
+        <button
+          onClick={() => setIsLoopMode(!isLoopMode)}
+          className={`p-2 rounded ${isLoopMode ? 'bg-green-800/50 text-green-300' : 'hover:bg-gray-700'}`}
+          title="Loop mode: drag on the waveform to set a loop ([ and ] set A/B, \ clears it)"
+        >
+          <Repeat size={18} />
+        </button>
+
+        {activeLoop && (
+          <div className="flex items-center gap-1 text-xs font-mono text-green-400">
+            {formatTime(activeLoop.start)}-{formatTime(activeLoop.end)}
+            <button onClick={() => setLoop(null)} className="p-0.5 hover:text-green-200" title="Clear loop">
+              <X size={12} />
+            </button>
+          </div>
+        )}
+
         <div className="flex-1 text-sm text-gray-400">
           <span>{formatTime(currentTime)}</span>
           <span className="mx-2">/</span>
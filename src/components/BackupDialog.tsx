@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import Modal from './Modal';
+import { useDB } from '@hooks/useDB';
+
+/**
+ * Backup dialog - exports the whole library to one JSON file and restores it
+ * Restoring replaces everything, so songs have to be re-linked to their folders afterwards
+ */
+interface BackupDialogProps {
+  onClose: () => void;
+  onRestored: (closeDialog: boolean) => void;
+}
+
+export default function BackupDialog({ onClose, onRestored }: BackupDialogProps) {
+  const dbOps = useDB();
+  const [includeImages, setIncludeImages] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsWorking(true);
+    setStatus(null);
+    try {
+      const saved = await dbOps.exportBackup(includeImages);
+      if (saved) setStatus('Backup saved.');
+    } catch (error) {
+      console.error('Failed to export backup:', error);
+      setStatus('Export failed, see the console for details.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!confirm('Restoring replaces all songs, notes, tags and ratings in this browser. Continue?')) return;
+
+    setIsWorking(true);
+    setStatus(null);
+    try {
+      const result = await dbOps.importBackup();
+      if (!result) return;
+
+      // Stay open to say which images are missing, the library itself is restored either way
+      const failed = result.imageFailures;
+      if (failed.length > 0) {
+        setStatus(`Restored, but ${failed.length} image file${failed.length === 1 ? '' : 's'} could not be written: ${failed.join(', ')}`);
+      }
+      onRestored(failed.length === 0);
+    } catch (error) {
+      console.error('Failed to import backup:', error);
+      setStatus(error instanceof Error ? error.message : 'Import failed.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Modal title="Backup & Restore" onClose={onClose}>
+      <div className="space-y-6 text-sm">
+        <div>
+          <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">Export</h3>
+          <p className="text-gray-400 mb-3">
+            Saves songs, versions, notes, tags, ratings and image records to a single file.
+            Audio files are not included.
+          </p>
+          <label className="flex items-center gap-2 mb-3">
+            <input
+              type="checkbox"
+              checked={includeImages}
+              onChange={(e) => setIncludeImages(e.target.checked)}
+            />
+            Include image attachments
+          </label>
+          <button
+            onClick={handleExport}
+            disabled={isWorking}
+            className="btn btn-primary btn-sm flex items-center gap-2"
+          >
+            <Download size={14} />
+            Export backup
+          </button>
+        </div>
+
+        <div>
+          <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">Restore</h3>
+          <p className="text-gray-400 mb-3">
+            Replaces the current library with a backup. You'll be asked to re-link each song folder afterwards.
+          </p>
+          <button
+            onClick={handleImport}
+            disabled={isWorking}
+            className="btn btn-ghost btn-sm flex items-center gap-2 border border-gray-600"
+          >
+            <Upload size={14} />
+            Restore from backup
+          </button>
+        </div>
+
+        {status && <p className="text-gray-300">{status}</p>}
+      </div>
+    </Modal>
+  );
+}
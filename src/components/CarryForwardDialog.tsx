@@ -0,0 +1,280 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Forward, ScanLine } from 'lucide-react';
+import Modal from './Modal';
+import { useAppStore } from '../store/appStore';
+import { useDB } from '@hooks/useDB';
+import { Note } from '@lib/db';
+import { getVersionDate, findPreviousVersion } from '@lib/versionFilter';
+import { isOpenIssue, getNoteStatus, NOTE_STATUS_LABELS } from '@lib/noteThreads';
+import { AlignmentResult, IDENTITY_MAPPING, TimeMapping, mapTime } from '@lib/carryForward';
+import { formatTimeRange } from '@lib/timestamps';
+import { stripHtml } from '@lib/search';
+
+/**
+ * Carry forward dialog - copies notes from another version of the song into the
+ * selected one, moving their timestamps by an offset or by aligning the audio
+ */
+interface CarryForwardDialogProps {
+  onClose: () => void;
+}
+
+type TimingMode = 'keep' | 'offset' | 'auto';
+
+export default function CarryForwardDialog({ onClose }: CarryForwardDialogProps) {
+  const dbOps = useDB();
+  const { selectedSong, selectedVersion, notes, setNotes, setSongs } = useAppStore();
+  const [sourceId, setSourceId] = useState<number | null>(null);
+  const [sourceNotes, setSourceNotes] = useState<Note[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [timingMode, setTimingMode] = useState<TimingMode>('keep');
+  const [offsetDraft, setOffsetDraft] = useState('0');
+  const [alignment, setAlignment] = useState<AlignmentResult | null>(null);
+  const [alignmentError, setAlignmentError] = useState<string | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Newest first, so the version before this one is the natural source
+  const otherVersions = useMemo(() => {
+    if (!selectedSong || !selectedVersion) return [];
+    return selectedSong.versions
+      .filter((v) => v.id !== selectedVersion.id)
+      .sort((a, b) => getVersionDate(b) - getVersionDate(a));
+  }, [selectedSong, selectedVersion]);
+
+  useEffect(() => {
+    if (!selectedVersion || otherVersions.length === 0) return;
+
+    setSourceId(findPreviousVersion(otherVersions, selectedVersion)!.id!);
+  }, [otherVersions, selectedVersion]);
+
+  // Load the source's top-level notes, unresolved ones start selected
+  useEffect(() => {
+    if (sourceId === null) return;
+
+    setAlignment(null);
+    setAlignmentError(null);
+    dbOps.getNotes(sourceId)
+      .then((loaded) => {
+        const topLevel = loaded
+          .filter((n) => !n.parentId)
+          .sort((a, b) => (a.startTime ?? Infinity) - (b.startTime ?? Infinity));
+        setSourceNotes(topLevel);
+        setSelectedIds(new Set(topLevel.filter(isOpenIssue).map((n) => n.id!)));
+      })
+      .catch((error) => console.error('Failed to load notes:', error));
+  }, [sourceId]);
+
+  if (!selectedSong || !selectedVersion) return null;
+
+  // Notes already carried here from the source would only be duplicated
+  const carriedHere = new Set(notes.map((n) => n.carriedFromNoteId).filter(Boolean));
+  const available = sourceNotes.filter((n) => !carriedHere.has(n.id!));
+
+  const offset = parseFloat(offsetDraft);
+  const mapping: TimeMapping =
+    timingMode === 'offset' ? { offset: Number.isFinite(offset) ? offset : 0, scale: 1 }
+    : timingMode === 'auto' && alignment ? alignment.mapping
+    : IDENTITY_MAPPING;
+
+  const duration = selectedVersion.formats[selectedVersion.selectedFormatIndex]?.duration;
+
+  const handleDetect = async () => {
+    if (sourceId === null) return;
+
+    setIsDetecting(true);
+    setAlignmentError(null);
+    try {
+      const result = await dbOps.detectNoteAlignment(sourceId, selectedVersion.id!);
+      setAlignment(result);
+      if (!result) setAlignmentError('Could not align these versions: there is no audio analysis or duration to compare.');
+    } catch (error) {
+      console.error('Failed to align versions:', error);
+      setAlignmentError('Could not read the audio of one of the versions.');
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const handleCarry = async () => {
+    setIsWorking(true);
+    try {
+      await dbOps.carryForwardNotes(Array.from(selectedIds), selectedVersion.id!, mapping);
+      setNotes(await dbOps.getNotes(selectedVersion.id!));
+      setSongs(await dbOps.getSongs());
+      onClose();
+    } catch (error) {
+      console.error('Failed to carry notes forward:', error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const toggleNote = (id: number) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const describeAlignment = (result: AlignmentResult) => {
+    if (result.method === 'content') {
+      const shift = result.mapping.offset;
+      const direction = shift === 0 ? 'no shift' : `${Math.abs(shift).toFixed(1)}s ${shift > 0 ? 'later' : 'earlier'}`;
+      return `Audio matched (correlation ${result.correlation}): ${direction}`;
+    }
+    return `Audio didn't match, times scaled by length (×${result.mapping.scale.toFixed(3)})`;
+  };
+
+  const selectedCount = available.filter((n) => selectedIds.has(n.id!)).length;
+
+  return (
+    <Modal
+      title={`Carry notes forward - ${selectedVersion.versionName}`}
+      onClose={onClose}
+      width="max-w-2xl"
+      footer={
+        <>
+          <button onClick={onClose} className="btn btn-ghost btn-sm">Cancel</button>
+          <button
+            onClick={handleCarry}
+            disabled={selectedCount === 0 || isWorking || (timingMode === 'auto' && !alignment)}
+            className="btn btn-primary btn-sm flex items-center gap-1"
+          >
+            <Forward size={14} />
+            Carry {selectedCount} note{selectedCount === 1 ? '' : 's'}
+          </button>
+        </>
+      }
+    >
+      {otherVersions.length === 0 ? (
+        <p className="text-sm text-gray-500">This song has no other versions.</p>
+      ) : (
+        <div className="space-y-5 text-sm">
+          {/* Source */}
+          <div>
+            <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">From version</h3>
+            <select
+              value={sourceId ?? ''}
+              onChange={(e) => setSourceId(parseInt(e.target.value))}
+              className="select-styled text-sm pl-2 py-1 w-full"
+            >
+              {otherVersions.map((v) => (
+                <option key={v.id} value={v.id}>
+                  {v.versionName}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Timing */}
+          <div>
+            <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">Timestamps</h3>
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-2">
+                <input type="radio" name="timing" checked={timingMode === 'keep'} onChange={() => setTimingMode('keep')} />
+                Keep as they are
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="radio" name="timing" checked={timingMode === 'offset'} onChange={() => setTimingMode('offset')} />
+                Shift by
+                <input
+                  type="number"
+                  step="0.1"
+                  value={offsetDraft}
+                  onChange={(e) => setOffsetDraft(e.target.value)}
+                  onFocus={() => setTimingMode('offset')}
+                  className="w-20 bg-gray-700 rounded px-2 py-0.5 outline-none"
+                />
+                s
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="radio" name="timing" checked={timingMode === 'auto'} onChange={() => setTimingMode('auto')} />
+                Align the audio
+              </label>
+            </div>
+            {timingMode === 'auto' && (
+              <div className="flex items-center gap-2 mt-2">
+                <button
+                  onClick={handleDetect}
+                  disabled={isDetecting}
+                  className="btn btn-ghost btn-sm flex items-center gap-1"
+                >
+                  <ScanLine size={14} />
+                  {isDetecting ? 'Analysing...' : 'Detect'}
+                </button>
+                {alignment && <span className="text-xs text-gray-400">{describeAlignment(alignment)}</span>}
+                {alignmentError && <span className="text-xs text-red-400">{alignmentError}</span>}
+              </div>
+            )}
+          </div>
+
+          {/* Notes */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Notes</h3>
+              <div className="flex gap-2 text-xs">
+                <button
+                  onClick={() => setSelectedIds(new Set(available.filter(isOpenIssue).map((n) => n.id!)))}
+                  className="text-primary-400 hover:text-primary-300"
+                >
+                  Unresolved
+                </button>
+                <button
+                  onClick={() => setSelectedIds(new Set(available.map((n) => n.id!)))}
+                  className="text-primary-400 hover:text-primary-300"
+                >
+                  All
+                </button>
+                <button onClick={() => setSelectedIds(new Set())} className="text-primary-400 hover:text-primary-300">
+                  None
+                </button>
+              </div>
+            </div>
+
+            {sourceNotes.length === 0 ? (
+              <p className="text-gray-500">No notes on this version.</p>
+            ) : (
+              <div className="space-y-1">
+                {sourceNotes.map((note) => {
+                  const alreadyCarried = carriedHere.has(note.id!);
+                  return (
+                    <label key={note.id} className={`flex items-start gap-2 ${alreadyCarried ? 'opacity-50' : ''}`}>
+                      <input
+                        type="checkbox"
+                        className="mt-1"
+                        disabled={alreadyCarried}
+                        checked={!alreadyCarried && selectedIds.has(note.id!)}
+                        onChange={() => toggleNote(note.id!)}
+                      />
+                      <span className="flex-1 min-w-0">
+                        <span className="text-gray-300 line-clamp-2">{stripHtml(note.content)}</span>
+                        <span className="text-xs text-gray-500">
+                          {NOTE_STATUS_LABELS[getNoteStatus(note)]}
+                          {note.startTime !== null && (
+                            <>
+                              {' · '}
+                              {formatTimeRange(note.startTime, note.endTime)}
+                              {' → '}
+                              {formatTimeRange(
+                                mapTime(note.startTime, mapping, duration),
+                                note.endTime !== null ? mapTime(note.endTime, mapping, duration) : null
+                              )}
+                            </>
+                          )}
+                          {alreadyCarried && ' · already carried here'}
+                        </span>
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
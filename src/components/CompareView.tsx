@@ -0,0 +1,288 @@
+import { useEffect, useRef, useState } from 'react';
+import { Play, Pause, Loader2, Scale } from 'lucide-react';
+import Modal from './Modal';
+import { useAppStore } from '../store/appStore';
+import { useDB } from '@hooks/useDB';
+import { VersionWithTags } from '@types';
+import { CompareTrack, ComparePlayer, createComparePlayer, decodeVersion, matchLoudness } from '@lib/compare';
+import { formatTimestamp } from '@lib/timestamps';
+import { isTypingTarget } from '@lib/keyboard';
+
+/**
+ * Compare view - plays two or more versions of the selected song in lockstep
+ * T switches to the next version and 1-9 pick one directly, at the same playhead position
+ * Offsets line up different pre-roll and gains level-match the mixes
+ */
+interface CompareViewProps {
+  onClose: () => void;
+}
+
+interface TrackSettings {
+  offset: number; // seconds
+  gain: number;   // dB
+}
+
+export default function CompareView({ onClose }: CompareViewProps) {
+  const dbOps = useDB();
+  const { selectedSong, selectedVersion, setSongs, setComparing } = useAppStore();
+  const [chosenIds, setChosenIds] = useState<number[]>(selectedVersion ? [selectedVersion.id!] : []);
+  const [trackIds, setTrackIds] = useState<number[]>([]);
+  const [settings, setSettings] = useState<Record<number, TrackSettings>>({});
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const contextRef = useRef<AudioContext | null>(null);
+  const playerRef = useRef<ComparePlayer | null>(null);
+  const tracksRef = useRef<CompareTrack[]>([]);
+  const settingsChangedRef = useRef(false);
+
+  const versions = selectedSong?.versions || [];
+  const getVersion = (versionId: number) => versions.find((v) => v.id === versionId);
+
+  // Pause the regular player while comparing, and release the audio on close
+  useEffect(() => {
+    setComparing(true);
+    return () => {
+      setComparing(false);
+      playerRef.current?.destroy();
+      contextRef.current?.close();
+      if (settingsChangedRef.current) {
+        dbOps.getSongs().then(setSongs).catch((error) => console.error('Failed to reload songs:', error));
+      }
+    };
+  }, []);
+
+  // Follow the playhead while the comparison is loaded
+  useEffect(() => {
+    if (trackIds.length === 0) return;
+
+    let frame: number;
+    const tick = () => {
+      const player = playerRef.current;
+      if (player) {
+        setPosition(player.getPosition());
+        setIsPlaying(player.isPlaying());
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [trackIds]);
+
+  const toggleChosen = (versionId: number) => {
+    setChosenIds((prev) =>
+      prev.includes(versionId) ? prev.filter((id) => id !== versionId) : [...prev, versionId]
+    );
+  };
+
+  const handleLoad = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      playerRef.current?.destroy();
+      const context = contextRef.current || new AudioContext();
+      contextRef.current = context;
+
+      const tracks: CompareTrack[] = [];
+      for (const versionId of chosenIds) {
+        const version = getVersion(versionId)!;
+        tracks.push({
+          versionId,
+          buffer: await decodeVersion(version, context),
+          offset: version.compareOffset ?? 0,
+          gain: version.compareGain ?? 0,
+        });
+      }
+
+      tracksRef.current = tracks;
+      playerRef.current = createComparePlayer(context, tracks);
+      setSettings(Object.fromEntries(tracks.map((t) => [t.versionId, { offset: t.offset, gain: t.gain }])));
+      setTrackIds(chosenIds);
+      setActiveId(chosenIds[0]);
+      setDuration(playerRef.current.getDuration());
+      setPosition(0);
+    } catch (err) {
+      console.error('Failed to load versions for comparison:', err);
+      setError(err instanceof Error ? err.message : 'The versions could not be decoded.');
+      // The previous player was destroyed above, don't leave its tracks on screen
+      playerRef.current = null;
+      tracksRef.current = [];
+      setTrackIds([]);
+      setActiveId(null);
+      setIsPlaying(false);
+      setPosition(0);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const switchTo = (versionId: number) => {
+    playerRef.current?.setActive(versionId);
+    setActiveId(versionId);
+  };
+
+  const handlePlayPause = () => {
+    const player = playerRef.current;
+    if (!player) return;
+    player.isPlaying() ? player.pause() : player.play();
+    setIsPlaying(player.isPlaying());
+  };
+
+  const updateSettings = async (versionId: number, next: TrackSettings) => {
+    setSettings((prev) => ({ ...prev, [versionId]: next }));
+    playerRef.current?.setTrackSettings(versionId, next.offset, next.gain);
+    setDuration(playerRef.current?.getDuration() ?? 0);
+
+    try {
+      await dbOps.updateVersionCompareSettings(versionId, next.offset, next.gain);
+      settingsChangedRef.current = true;
+    } catch (error) {
+      console.error('Failed to save compare settings:', error);
+    }
+  };
+
+  const handleMatchLoudness = async () => {
+    const gains = matchLoudness(tracksRef.current);
+    for (const versionId of trackIds) {
+      await updateSettings(versionId, { ...settings[versionId], gain: gains[versionId] });
+    }
+  };
+
+  // Space plays and pauses, T cycles through the versions, 1-9 jump to one
+  useEffect(() => {
+    if (trackIds.length === 0) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+
+      if (e.key === ' ' && (e.target as HTMLElement).tagName !== 'BUTTON') {
+        e.preventDefault();
+        handlePlayPause();
+      } else if (e.key === 't' || e.key === 'T') {
+        const index = trackIds.indexOf(activeId!);
+        switchTo(trackIds[(index + 1) % trackIds.length]);
+      } else if (/^[1-9]$/.test(e.key) && trackIds[parseInt(e.key) - 1] !== undefined) {
+        switchTo(trackIds[parseInt(e.key) - 1]);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [trackIds, activeId]);
+
+  if (!selectedSong) return null;
+
+  const renderTrack = (versionId: number, index: number) => {
+    const version = getVersion(versionId) as VersionWithTags;
+    const trackSettings = settings[versionId] || { offset: 0, gain: 0 };
+    const isActive = versionId === activeId;
+
+    return (
+      <div
+        key={versionId}
+        onClick={() => switchTo(versionId)}
+        className={`flex items-center gap-3 px-3 py-2 rounded cursor-pointer border ${
+          isActive ? 'border-primary-500 bg-primary-500/10' : 'border-transparent bg-gray-900/50 hover:bg-gray-800'
+        }`}
+      >
+        <kbd className="w-6 text-center text-xs font-mono text-gray-400 bg-gray-800 rounded">{index + 1}</kbd>
+        <span className="flex-1 truncate text-sm">{version.versionName}</span>
+        <label className="flex items-center gap-1 text-xs text-gray-400" onClick={(e) => e.stopPropagation()}>
+          Offset
+          <input
+            type="number"
+            step={10}
+            value={Math.round(trackSettings.offset * 1000)}
+            onChange={(e) => updateSettings(versionId, { ...trackSettings, offset: (parseFloat(e.target.value) || 0) / 1000 })}
+            className="w-20 bg-gray-800 rounded px-1 py-0.5 text-right"
+            title="Milliseconds skipped at the start, negative delays this version"
+          />
+          ms
+        </label>
+        <label className="flex items-center gap-1 text-xs text-gray-400" onClick={(e) => e.stopPropagation()}>
+          Gain
+          <input
+            type="number"
+            step={0.5}
+            value={trackSettings.gain}
+            onChange={(e) => updateSettings(versionId, { ...trackSettings, gain: parseFloat(e.target.value) || 0 })}
+            className="w-16 bg-gray-800 rounded px-1 py-0.5 text-right"
+          />
+          dB
+        </label>
+      </div>
+    );
+  };
+
+  return (
+    <Modal title={`Compare versions - ${selectedSong.name}`} onClose={onClose} width="max-w-2xl">
+      <div className="space-y-4 text-sm">
+        <div>
+          <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">Versions</h3>
+          <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-1">
+            {versions.map((version) => (
+              <label key={version.id} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={chosenIds.includes(version.id!)}
+                  onChange={() => toggleChosen(version.id!)}
+                />
+                <span className="truncate">{version.versionName}</span>
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={handleLoad}
+            disabled={chosenIds.length < 2 || isLoading}
+            className="btn btn-primary btn-sm mt-3 flex items-center gap-2"
+          >
+            {isLoading && <Loader2 size={14} className="animate-spin" />}
+            {trackIds.length > 0 ? 'Reload' : 'Load'} {chosenIds.length} versions
+          </button>
+          {error && <p className="mt-2 text-red-400">{error}</p>}
+        </div>
+
+        {trackIds.length > 0 && (
+          <div className="space-y-3">
+            <div className="space-y-1">{trackIds.map(renderTrack)}</div>
+
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handlePlayPause}
+                className="p-2 bg-primary-600 hover:bg-primary-700 rounded-full transition-colors"
+              >
+                {isPlaying ? <Pause size={18} /> : <Play size={18} />}
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={duration}
+                step={0.01}
+                value={position}
+                onChange={(e) => playerRef.current?.seek(parseFloat(e.target.value))}
+                className="flex-1"
+              />
+              <span className="font-mono text-xs text-gray-400">
+                {formatTimestamp(position)} / {formatTimestamp(duration)}
+              </span>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-gray-500">Space plays and pauses, T switches version, 1-9 pick one.</p>
+              <button
+                onClick={handleMatchLoudness}
+                className="btn btn-ghost btn-sm flex items-center gap-1 border border-gray-600"
+                title="Set gains so every version plays at the level of the quietest"
+              >
+                <Scale size={14} />
+                Match loudness
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
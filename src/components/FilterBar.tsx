@@ -0,0 +1,250 @@
+import { useMemo, useState } from 'react';
+import { Filter, ChevronDown, ChevronRight, Save, X } from 'lucide-react';
+import { useAppStore } from '../store/appStore';
+import { useDB } from '@hooks/useDB';
+import { VersionFilter } from '@lib/db';
+import { getVersionExtensions, isFilterActive } from '@lib/versionFilter';
+import { groupTags } from '@lib/tagLibrary';
+
+/**
+ * Filter bar - narrows the song browser to versions matching tags, rating, notes, mismatch, format and date
+ * Tag chips cycle through must have, any of and must not have; the filter can be saved as a smart view
+ */
+interface FilterBarProps {
+  matchCount: number;
+  totalCount: number;
+}
+
+type TagMode = 'all' | 'any' | 'none' | null;
+
+const TAG_MODE_CYCLE: TagMode[] = [null, 'all', 'any', 'none'];
+
+const TAG_MODE_LABELS: Record<Exclude<TagMode, null>, { prefix: string; title: string }> = {
+  all: { prefix: '+', title: 'Must have' },
+  any: { prefix: '~', title: 'Any of these' },
+  none: { prefix: '−', title: 'Must not have' },
+};
+
+const DATE_PRESETS = [7, 30, 90];
+
+export default function FilterBar({ matchCount, totalCount }: FilterBarProps) {
+  const dbOps = useDB();
+  const { songs, tags, versionFilter: filter, setVersionFilter, clearVersionFilter, setSmartViews } = useAppStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [customDates, setCustomDates] = useState(false);
+
+  const isActive = isFilterActive(filter);
+
+  // Only offer extensions that exist somewhere in the library
+  const availableFormats = useMemo(() => {
+    const extensions = new Set(
+      songs.flatMap((song) => song.versions.flatMap((version) => getVersionExtensions(version)))
+    );
+    extensions.delete('');
+    return Array.from(extensions).sort();
+  }, [songs]);
+
+  const update = (changes: Partial<VersionFilter>) => setVersionFilter({ ...filter, ...changes });
+
+  const getTagMode = (tagId: number): TagMode => {
+    if (filter.tagsAll.includes(tagId)) return 'all';
+    if (filter.tagsAny.includes(tagId)) return 'any';
+    if (filter.tagsNone.includes(tagId)) return 'none';
+    return null;
+  };
+
+  const cycleTag = (tagId: number) => {
+    const current = TAG_MODE_CYCLE.indexOf(getTagMode(tagId));
+    const next = TAG_MODE_CYCLE[(current + 1) % TAG_MODE_CYCLE.length];
+    const without = (ids: number[]) => ids.filter((id) => id !== tagId);
+
+    update({
+      tagsAll: next === 'all' ? [...filter.tagsAll, tagId] : without(filter.tagsAll),
+      tagsAny: next === 'any' ? [...filter.tagsAny, tagId] : without(filter.tagsAny),
+      tagsNone: next === 'none' ? [...filter.tagsNone, tagId] : without(filter.tagsNone),
+    });
+  };
+
+  const toggleFormat = (format: string) => {
+    update({
+      formats: filter.formats.includes(format)
+        ? filter.formats.filter((f) => f !== format)
+        : [...filter.formats, format],
+    });
+  };
+
+  const handleRatingChange = (value: string) => {
+    update({
+      unratedOnly: value === 'unrated',
+      minRating: value === 'any' || value === 'unrated' ? null : parseInt(value),
+    });
+  };
+
+  const handleDateChange = (value: string) => {
+    setCustomDates(value === 'custom');
+    update({
+      withinDays: value === 'any' || value === 'custom' ? null : parseInt(value),
+      dateFrom: null,
+      dateTo: null,
+    });
+  };
+
+  const handleSaveView = async () => {
+    const name = prompt('Name for this smart view:')?.trim();
+    if (!name) return;
+
+    try {
+      const view = await dbOps.createSmartView(name, filter);
+      setSmartViews(await dbOps.getSmartViews());
+      if (view) setVersionFilter(view.filter, view.id!);
+    } catch (error) {
+      console.error('Failed to save smart view:', error);
+    }
+  };
+
+  const ratingValue = filter.unratedOnly ? 'unrated' : filter.minRating !== null ? String(filter.minRating) : 'any';
+  const dateValue = filter.withinDays !== null
+    ? String(filter.withinDays)
+    : customDates || filter.dateFrom || filter.dateTo ? 'custom' : 'any';
+
+  const triStateValue = (value: boolean | null) => (value === null ? 'any' : value ? 'yes' : 'no');
+  const parseTriState = (value: string) => (value === 'any' ? null : value === 'yes');
+
+  return (
+    <div className="border-b border-gray-700 text-sm">
+      <div className="flex items-center gap-2 px-3 py-2">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className={`flex items-center gap-1 flex-1 text-left ${isActive ? 'text-primary-400' : 'text-gray-400 hover:text-gray-200'}`}
+        >
+          {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          <Filter size={14} />
+          Filter
+          {isActive && (
+            <span className="text-xs text-gray-500 ml-1">
+              {matchCount} of {totalCount} versions
+            </span>
+          )}
+        </button>
+        {isActive && (
+          <>
+            <button onClick={handleSaveView} className="text-gray-400 hover:text-gray-200" title="Save as smart view">
+              <Save size={14} />
+            </button>
+            <button onClick={clearVersionFilter} className="text-gray-400 hover:text-gray-200" title="Clear filter">
+              <X size={14} />
+            </button>
+          </>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-2">
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {groupTags(tags).flatMap(([, groupedTags]) => groupedTags).map((tag) => {
+                const mode = getTagMode(tag.id!);
+                return (
+                  <button
+                    key={tag.id}
+                    onClick={() => cycleTag(tag.id!)}
+                    className={`text-xs px-2 py-0.5 rounded ${mode === 'none' ? 'line-through' : ''} ${mode ? '' : 'opacity-50'}`}
+                    style={{ backgroundColor: tag.color + (mode ? '50' : '20'), color: tag.color }}
+                    title={mode ? `${TAG_MODE_LABELS[mode].title}, click to change` : 'Click to filter by this tag'}
+                  >
+                    {mode && <span className="font-mono mr-1">{TAG_MODE_LABELS[mode].prefix}</span>}
+                    {tag.name}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-2">
+            <select
+              value={ratingValue}
+              onChange={(e) => handleRatingChange(e.target.value)}
+              className="select-styled text-xs pl-2 py-1"
+              title="Rating"
+            >
+              <option value="any">Any rating</option>
+              <option value="unrated">Unrated</option>
+              {[1, 2, 3, 4, 5].map((stars) => (
+                <option key={stars} value={stars}>{stars}+ stars</option>
+              ))}
+            </select>
+            <select
+              value={triStateValue(filter.hasNotes)}
+              onChange={(e) => update({ hasNotes: parseTriState(e.target.value) })}
+              className="select-styled text-xs pl-2 py-1"
+              title="Notes"
+            >
+              <option value="any">Any notes</option>
+              <option value="yes">Has notes</option>
+              <option value="no">No notes</option>
+            </select>
+            <select
+              value={triStateValue(filter.hasMismatch)}
+              onChange={(e) => update({ hasMismatch: parseTriState(e.target.value) })}
+              className="select-styled text-xs pl-2 py-1"
+              title="Format mismatch"
+            >
+              <option value="any">Any formats</option>
+              <option value="yes">Mismatched</option>
+              <option value="no">Matching</option>
+            </select>
+          </div>
+
+          {availableFormats.length > 1 && (
+            <div className="flex flex-wrap gap-1">
+              {availableFormats.map((format) => (
+                <button
+                  key={format}
+                  onClick={() => toggleFormat(format)}
+                  className={`text-xs px-2 py-0.5 rounded font-mono ${
+                    filter.formats.includes(format) ? 'bg-primary-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+                  }`}
+                  title="Has a file in this format"
+                >
+                  {format}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <select
+              value={dateValue}
+              onChange={(e) => handleDateChange(e.target.value)}
+              className="select-styled text-xs pl-2 py-1"
+              title="File date, or the date in the name"
+            >
+              <option value="any">Any date</option>
+              {DATE_PRESETS.map((days) => (
+                <option key={days} value={days}>Last {days} days</option>
+              ))}
+              <option value="custom">Date range…</option>
+            </select>
+            {dateValue === 'custom' && (
+              <>
+                <input
+                  type="date"
+                  value={filter.dateFrom || ''}
+                  onChange={(e) => update({ dateFrom: e.target.value || null })}
+                  className="bg-gray-700 rounded px-1 py-0.5 text-xs outline-none"
+                />
+                <span className="text-gray-500">–</span>
+                <input
+                  type="date"
+                  value={filter.dateTo || ''}
+                  onChange={(e) => update({ dateTo: e.target.value || null })}
+                  className="bg-gray-700 rounded px-1 py-0.5 text-xs outline-none"
+                />
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { AlertTriangle, Fingerprint, Loader2 } from 'lucide-react';
+import { useAppStore } from '../store/appStore';
+import { useDB } from '@hooks/useDB';
+import { buildMismatchReport } from '@lib/mismatchReport';
+import { formatTimestamp } from '@lib/timestamps';
+
+/**
+ * Format mismatch report - every format of the selected version against its highest quality one
+ * Lists duration deltas and, once analysed, how closely the content matches,
+ * which catches an MP3 bounced from an older mix than the WAV
+ */
+export default function FormatMismatchReport() {
+  const dbOps = useDB();
+  const { selectedSong, selectedVersion, mismatchThresholds, setSongs, setSelectedVersion } = useAppStore();
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!selectedSong || !selectedVersion || selectedVersion.formats.length < 2) return null;
+
+  const formats = selectedVersion.formats;
+  const report = buildMismatchReport(formats, mismatchThresholds);
+  const needsAnalysis = formats.some((f) => !f.missing && !f.envelope);
+
+  const handleAnalyze = async () => {
+    setIsAnalyzing(true);
+    setError(null);
+    try {
+      await dbOps.analyzeVersionMismatch(selectedVersion.id!);
+
+      const updatedSongs = await dbOps.getSongs();
+      setSongs(updatedSongs);
+      const refreshed = updatedSongs
+        .find((s) => s.id === selectedSong.id)
+        ?.versions.find((v) => v.id === selectedVersion.id);
+      if (refreshed) setSelectedVersion(refreshed);
+    } catch (err) {
+      console.error('Failed to compare formats:', err);
+      setError('Analysis failed, a file may not be decodable.');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  return (
+    <div className="text-xs">
+      <div className="flex items-center gap-2 text-gray-400 mb-1">
+        {report.hasMismatch && <AlertTriangle size={14} className="text-yellow-500" />}
+        <span className="font-semibold uppercase tracking-wide">Formats</span>
+        {needsAnalysis && (
+          <button
+            onClick={handleAnalyze}
+            disabled={isAnalyzing}
+            className="ml-auto flex items-center gap-1 text-gray-500 hover:text-gray-300"
+            title="Decode every format and compare their loudness envelopes"
+          >
+            {isAnalyzing ? <Loader2 size={14} className="animate-spin" /> : <Fingerprint size={14} />}
+            {isAnalyzing ? 'Comparing…' : 'Compare content'}
+          </button>
+        )}
+      </div>
+
+      <table className="w-full text-gray-400">
+        <tbody>
+          {report.formats.map((comparison) => {
+            const format = formats[comparison.formatIndex];
+            const isReference = comparison.formatIndex === report.referenceIndex;
+
+            return (
+              <tr key={comparison.formatIndex} className={comparison.issues.length > 0 ? 'text-yellow-400' : ''}>
+                <td className="pr-3 py-0.5 truncate max-w-[200px]" title={format.relativePath || format.fileName}>
+                  {format.fileName}
+                </td>
+                <td className="pr-3 font-mono">
+                  {format.duration != null ? formatTimestamp(format.duration) : '-'}
+                </td>
+                <td className="pr-3 font-mono">
+                  {isReference
+                    ? 'reference'
+                    : comparison.durationDelta != null
+                      ? `${comparison.durationDelta >= 0 ? '+' : ''}${comparison.durationDelta.toFixed(2)} s`
+                      : '-'}
+                </td>
+                <td className="pr-3 font-mono" title="Loudness envelope correlation with the reference">
+                  {comparison.correlation != null ? comparison.correlation.toFixed(2) : ''}
+                  {comparison.alignment ? ` @ ${comparison.alignment > 0 ? '+' : ''}${comparison.alignment.toFixed(1)} s` : ''}
+                </td>
+                <td>{format.missing ? 'missing' : comparison.issues.join(', ')}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {error && <p className="text-red-400 mt-1">{error}</p>}
+    </div>
+  );
+}
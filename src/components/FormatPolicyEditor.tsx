@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { FormatPolicy } from '@lib/db';
+import { DEFAULT_FORMAT_POLICY, parseFormatOrder } from '@lib/formatUtils';
+
+/**
+ * Format policy editor - picks how a version's default format is chosen
+ * With an inherit label, null stands for following the global policy
+ */
+interface FormatPolicyEditorProps {
+  policy: FormatPolicy | null;
+  inheritLabel?: string;
+  onChange: (policy: FormatPolicy | null) => void;
+}
+
+export default function FormatPolicyEditor({ policy, inheritLabel, onChange }: FormatPolicyEditorProps) {
+  // Kept as typed, parsing on every keystroke would eat the separators
+  const [orderText, setOrderText] = useState((policy?.order ?? []).join(' > '));
+
+  const mode = policy ? policy.mode : 'inherit';
+
+  const handleModeChange = (value: string) => {
+    if (value === 'inherit') {
+      onChange(null);
+    } else {
+      onChange({ ...DEFAULT_FORMAT_POLICY, order: parseFormatOrder(orderText), mode: value as FormatPolicy['mode'] });
+    }
+  };
+
+  const handleOrderChange = (text: string) => {
+    setOrderText(text);
+    if (policy) onChange({ ...policy, order: parseFormatOrder(text) });
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={mode}
+        onChange={(e) => handleModeChange(e.target.value)}
+        className="select-styled text-sm pl-2 py-1 w-full"
+      >
+        {inheritLabel && <option value="inherit">{inheritLabel}</option>}
+        <option value="smallest">Smallest file</option>
+        <option value="quality">Highest quality (lossless first, then bitrate)</option>
+        <option value="order">Preferred format order</option>
+      </select>
+
+      {mode === 'order' && (
+        <div>
+          <input
+            type="text"
+            value={orderText}
+            onChange={(e) => handleOrderChange(e.target.value)}
+            placeholder="wav > flac > mp3"
+            className="bg-gray-700 rounded px-2 py-1 w-full font-mono text-xs outline-none"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Extensions from most to least preferred. Unlisted formats come last, ties go to the smallest file.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,36 +1,53 @@
+import { PinOff } from 'lucide-react';
 import { VersionFormat } from '@lib/db';
 import { formatFormatLabel } from '@lib/formatUtils';
 
 /**
  * Format selector dropdown - allows user to choose which format to play
  * Displays format, file size, and bitrate for each option
+ * A hand-picked format can be released back to the default format policy
  */
 interface FormatSelectorProps {
   versionId: number;
   formats: VersionFormat[];
   selectedIndex: number;
+  isManual?: boolean;
   onFormatChange: (index: number) => void;
+  onResetSelection?: () => void;
 }
 
 export default function FormatSelector({
   formats,
   selectedIndex,
+  isManual,
   onFormatChange,
+  onResetSelection,
 }: FormatSelectorProps) {
   if (formats.length <= 1) return null;
 
   return (
-    <select
-      value={selectedIndex}
-      onChange={(e) => onFormatChange(parseInt(e.target.value))}
-      className="select-styled text-xs pl-2 py-1 min-w-[180px]"
-      title={`${formats.length} formats available`}
-    >
-      {formats.map((format, index) => (
-        <option key={index} value={index}>
-          {formatFormatLabel(format)}
-        </option>
-      ))}
-    </select>
+    <div className="flex items-center gap-1">
+      <select
+        value={selectedIndex}
+        onChange={(e) => onFormatChange(parseInt(e.target.value))}
+        className="select-styled text-xs pl-2 py-1 min-w-[180px]"
+        title={`${formats.length} formats available`}
+      >
+        {formats.map((format, index) => (
+          <option key={index} value={index} title={format.relativePath || format.fileName}>
+            {formatFormatLabel(format)}
+          </option>
+        ))}
+      </select>
+      {isManual && onResetSelection && (
+        <button
+          onClick={onResetSelection}
+          className="p-1 text-gray-500 hover:text-gray-300"
+          title="Picked by hand - go back to the default format"
+        >
+          <PinOff size={14} />
+        </button>
+      )}
+    </div>
   );
 }
@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react';
+import { ImagePlus, Trash2, Loader2, Clock } from 'lucide-react';
+import { useAppStore } from '../store/appStore';
+import { useDB } from '@hooks/useDB';
+import { useImageURLs } from '@hooks/useImageURLs';
+import ImageLightbox from './ImageLightbox';
+import { formatTimeRange, parseTimeRange } from '@lib/timestamps';
+
+/**
+ * Image gallery - screenshots and other images attached to a version
+ * Images can be dropped onto the gallery, pasted from the clipboard or picked from disk
+ * Giving an image a time pins it to the waveform
+ */
+interface ImageGalleryProps {
+  versionId: number;
+}
+
+export default function ImageGallery({ versionId }: ImageGalleryProps) {
+  const dbOps = useDB();
+  const { images, setImages, viewingImageId, setViewingImageId } = useAppStore();
+  const urls = useImageURLs(images);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [captionDrafts, setCaptionDrafts] = useState<Record<number, string>>({});
+  const [timeDrafts, setTimeDrafts] = useState<Record<number, string>>({});
+
+  const reloadImages = async () => {
+    setImages(await dbOps.getImages(versionId));
+  };
+
+  const handleAddFiles = async (files: File[]) => {
+    setIsUploading(true);
+    try {
+      const added = await dbOps.addImageFiles(versionId, files);
+      if (added > 0) await reloadImages();
+    } catch (error) {
+      console.error('Failed to add images:', error);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handlePickImage = async () => {
+    setIsUploading(true);
+    try {
+      const added = await dbOps.addImage(versionId, null);
+      if (added) await reloadImages();
+    } catch (error) {
+      console.error('Failed to add image:', error);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // Pasted screenshots land on the open version, wherever the focus is
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files || []).filter((file) => file.type.startsWith('image/'));
+      if (files.length === 0) return;
+
+      e.preventDefault();
+      handleAddFiles(files);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [versionId]);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleAddFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleCaptionBlur = async (imageId: number) => {
+    const draft = captionDrafts[imageId];
+    if (draft === undefined) return;
+
+    try {
+      await dbOps.updateImageCaption(imageId, draft.trim() || null);
+      await reloadImages();
+    } catch (error) {
+      console.error('Failed to update caption:', error);
+    } finally {
+      setCaptionDrafts((prev) => {
+        const { [imageId]: _, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  // Accepts "1:05" or "1:05-1:32", an empty field unpins the image
+  const handleTimeBlur = async (imageId: number) => {
+    const draft = timeDrafts[imageId];
+    setTimeDrafts((prev) => {
+      const { [imageId]: _, ...rest } = prev;
+      return rest;
+    });
+    if (draft === undefined) return;
+
+    const range = draft.trim() ? parseTimeRange(draft) : null;
+    if (draft.trim() && !range) return;
+
+    try {
+      await dbOps.updateImageTime(imageId, range?.start ?? null, range?.end ?? null);
+      await reloadImages();
+    } catch (error) {
+      console.error('Failed to update image time:', error);
+    }
+  };
+
+  const handleDelete = async (imageId: number) => {
+    if (!confirm('Delete this image? The file is removed from your images folder.')) return;
+
+    try {
+      await dbOps.deleteImage(imageId);
+      await reloadImages();
+    } catch (error) {
+      console.error('Failed to delete image:', error);
+    }
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={`rounded border border-dashed p-2 transition-colors ${
+        isDragging ? 'border-primary-500 bg-primary-500/10' : 'border-gray-700'
+      }`}
+    >
+      <div className="grid grid-cols-[repeat(auto-fill,minmax(8rem,1fr))] gap-2">
+        {images.map((image) => (
+          <div key={image.id} className="group relative bg-gray-900/50 rounded overflow-hidden">
+            <button
+              onClick={() => setViewingImageId(image.id!)}
+              className="block w-full aspect-video bg-gray-900"
+              title="View image"
+            >
+              {urls[image.id!] ? (
+                <img
+                  src={urls[image.id!]}
+                  alt={image.caption || image.fileName}
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <span className="text-xs text-gray-500">Not found</span>
+              )}
+            </button>
+            <button
+              onClick={() => handleDelete(image.id!)}
+              className="absolute top-1 right-1 p-1 rounded bg-black/60 opacity-0 group-hover:opacity-100 hover:text-red-400"
+              title="Delete image"
+            >
+              <Trash2 size={12} />
+            </button>
+            <input
+              type="text"
+              value={captionDrafts[image.id!] ?? image.caption ?? ''}
+              onChange={(e) => setCaptionDrafts((prev) => ({ ...prev, [image.id!]: e.target.value }))}
+              onBlur={() => handleCaptionBlur(image.id!)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+              }}
+              placeholder="Add caption"
+              className="w-full bg-transparent px-2 py-1 text-xs text-gray-300 placeholder-gray-600 focus:outline-none focus:bg-gray-800"
+            />
+            <label className="flex items-center gap-1 px-2 pb-1 text-xs text-gray-500" title="Pin to a time, e.g. 1:05 or 1:05-1:32">
+              <Clock size={12} />
+              <input
+                type="text"
+                value={
+                  timeDrafts[image.id!] ??
+                  (image.timestamp != null ? formatTimeRange(image.timestamp, image.endTime) : '')
+                }
+                onChange={(e) => setTimeDrafts((prev) => ({ ...prev, [image.id!]: e.target.value }))}
+                onBlur={() => handleTimeBlur(image.id!)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') e.currentTarget.blur();
+                }}
+                placeholder="No time"
+                className="w-full bg-transparent font-mono text-amber-500 placeholder-gray-600 focus:outline-none focus:bg-gray-800"
+              />
+            </label>
+          </div>
+        ))}
+
+        <button
+          onClick={handlePickImage}
+          disabled={isUploading}
+          className="aspect-video flex flex-col items-center justify-center gap-1 rounded text-xs text-gray-500 hover:text-gray-300 hover:bg-gray-800"
+        >
+          {isUploading ? <Loader2 size={18} className="animate-spin" /> : <ImagePlus size={18} />}
+          Add image
+        </button>
+      </div>
+
+      {images.length === 0 && (
+        <p className="mt-2 text-xs text-gray-500">Drop screenshots here or paste them from the clipboard.</p>
+      )}
+
+      {viewingImageId !== null && (
+        <ImageLightbox
+          images={images}
+          urls={urls}
+          imageId={viewingImageId}
+          onChangeImage={setViewingImageId}
+          onClose={() => setViewingImageId(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useEffect } from 'react';
+import { X, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Image } from '@types';
+import { formatTimeRange } from '@lib/timestamps';
+
+/**
+ * Image lightbox - full-screen viewer for a version's image attachments
+ * Arrow keys step through the images, Escape or clicking the backdrop closes it
+ */
+interface ImageLightboxProps {
+  images: Image[];
+  urls: Record<number, string>;
+  imageId: number;
+  onChangeImage: (imageId: number) => void;
+  onClose: () => void;
+}
+
+export default function ImageLightbox({ images, urls, imageId, onChangeImage, onClose }: ImageLightboxProps) {
+  const index = images.findIndex((image) => image.id === imageId);
+  const image = images[index];
+
+  const step = (delta: number) => {
+    if (images.length < 2) return;
+    const next = images[(index + delta + images.length) % images.length];
+    onChangeImage(next.id!);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft') step(-1);
+      if (e.key === 'ArrowRight') step(1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (!image) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-black/90 p-8"
+      onClick={onClose}
+    >
+      <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-200 p-1">
+        <X size={24} />
+      </button>
+
+      {images.length > 1 && (
+        <>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              step(-1);
+            }}
+            className="absolute left-4 text-gray-400 hover:text-gray-200 p-2"
+            title="Previous image"
+          >
+            <ChevronLeft size={32} />
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              step(1);
+            }}
+            className="absolute right-4 text-gray-400 hover:text-gray-200 p-2"
+            title="Next image"
+          >
+            <ChevronRight size={32} />
+          </button>
+        </>
+      )}
+
+      {urls[image.id!] ? (
+        <img
+          src={urls[image.id!]}
+          alt={image.caption || image.fileName}
+          className="max-w-full max-h-[80vh] object-contain rounded shadow-xl"
+          onClick={(e) => e.stopPropagation()}
+        />
+      ) : (
+        <div className="text-gray-400 text-sm">Image file could not be loaded</div>
+      )}
+
+      <div className="mt-4 text-sm text-gray-300 text-center" onClick={(e) => e.stopPropagation()}>
+        {image.timestamp != null && (
+          <span className="mr-2 font-mono text-amber-500">{formatTimeRange(image.timestamp, image.endTime)}</span>
+        )}
+        {image.caption || <span className="text-gray-500">{image.fileName}</span>}
+        {images.length > 1 && (
+          <span className="ml-3 text-xs text-gray-500">
+            {index + 1} / {images.length}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
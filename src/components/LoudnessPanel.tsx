@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { Gauge, Loader2 } from 'lucide-react';
+import { useAppStore } from '../store/appStore';
+import { useDB } from '@hooks/useDB';
+import { formatLoudness } from '@lib/formatUtils';
+
+/**
+ * Loudness panel - integrated and short-term loudness, range and peaks of the selected format
+ * Shows the change from the previous version so a squashed master stands out
+ */
+export default function LoudnessPanel() {
+  const dbOps = useDB();
+  const { selectedSong, selectedVersion, setSongs, setSelectedVersion } = useAppStore();
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!selectedSong || !selectedVersion) return null;
+
+  const format = selectedVersion.formats[selectedVersion.selectedFormatIndex];
+  const loudness = format?.loudness;
+
+  // Closest earlier version that has been measured
+  const previous = [...selectedSong.versions]
+    .filter((v) => v.createdAt < selectedVersion.createdAt)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .find((v) => v.formats[v.selectedFormatIndex]?.loudness?.integrated != null);
+  const previousLoudness = previous?.formats[previous.selectedFormatIndex].loudness;
+
+  const handleAnalyze = async () => {
+    setIsAnalyzing(true);
+    setError(null);
+    try {
+      await dbOps.analyzeFormatLoudness(selectedVersion.id!, selectedVersion.selectedFormatIndex);
+
+      const updatedSongs = await dbOps.getSongs();
+      setSongs(updatedSongs);
+      const refreshed = updatedSongs
+        .find((s) => s.id === selectedSong.id)
+        ?.versions.find((v) => v.id === selectedVersion.id);
+      if (refreshed) setSelectedVersion(refreshed);
+    } catch (err) {
+      console.error('Failed to analyse loudness:', err);
+      setError('Analysis failed, the file may not be decodable.');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  if (!format || format.missing) return null;
+
+  if (!loudness) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <button
+          onClick={handleAnalyze}
+          disabled={isAnalyzing}
+          className="flex items-center gap-1 hover:text-gray-300"
+          title="Measure LUFS, loudness range and true peak"
+        >
+          {isAnalyzing ? <Loader2 size={14} className="animate-spin" /> : <Gauge size={14} />}
+          {isAnalyzing ? 'Analysing loudness…' : 'Analyse loudness'}
+        </button>
+        {error && <span className="text-red-400">{error}</span>}
+      </div>
+    );
+  }
+
+  const delta =
+    loudness.integrated != null && previousLoudness?.integrated != null
+      ? loudness.integrated - previousLoudness.integrated
+      : null;
+
+  return (
+    <div className="flex items-center gap-4 text-xs text-gray-400">
+      <Gauge size={14} className="text-gray-500" />
+      <div title="Integrated loudness">
+        <span className="text-gray-200">{formatLoudness(loudness.integrated, 'LUFS')}</span>
+        {delta !== null && (
+          <span
+            className={`ml-1 ${delta > 1 ? 'text-orange-400' : 'text-gray-500'}`}
+            title={`Compared with ${previous!.versionName}`}
+          >
+            ({delta >= 0 ? '+' : ''}{delta.toFixed(1)} LU)
+          </span>
+        )}
+      </div>
+      <div title="Maximum short-term loudness">ST max {formatLoudness(loudness.shortTermMax, 'LUFS')}</div>
+      <div title="Loudness range">LRA {formatLoudness(loudness.range, 'LU')}</div>
+      <div title="Sample peak">Peak {formatLoudness(loudness.samplePeak, 'dBFS')}</div>
+      <div title="True peak" className={loudness.truePeak != null && loudness.truePeak > -1 ? 'text-orange-400' : ''}>
+        TP {formatLoudness(loudness.truePeak, 'dBTP')}
+      </div>
+    </div>
+  );
+}
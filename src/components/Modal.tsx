@@ -0,0 +1,53 @@
+import { ReactNode, useEffect } from 'react';
+import { X } from 'lucide-react';
+
+/**
+ * Modal dialog - dark overlay with a centered card
+ * Closes on Escape or when clicking outside the card
+ */
+interface ModalProps {
+  title: string;
+  onClose: () => void;
+  children: ReactNode;
+  footer?: ReactNode;
+  width?: string;
+}
+
+export default function Modal({ title, onClose, children, footer, width = 'max-w-lg' }: ModalProps) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
+      onClick={onClose}
+    >
+      <div
+        className={`card w-full ${width} max-h-[90vh] flex flex-col shadow-xl`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+          <h2 className="font-semibold">{title}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-200 p-1">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4">
+          {children}
+        </div>
+
+        {footer && (
+          <div className="flex justify-end gap-2 px-4 py-3 border-t border-gray-700">
+            {footer}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
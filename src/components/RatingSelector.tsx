@@ -1,55 +1,80 @@
 import { Star } from 'lucide-react';
 import { useAppStore } from '../store/appStore';
 import { useDB } from '@hooks/useDB';
+import { VersionRating } from '@lib/db';
+import { describeRatings, formatRatingStats, getRatingStats } from '@lib/reviewers';
 
 /**
  * Rating selector component - allows users to rate versions with 1-5 stars
+ * With reviewers, the stars are the current reviewer's own rating and the
+ * average and spread of everyone's ratings are shown next to them
  */
 interface RatingSelectorProps {
   versionId: number;
   currentRating: number | null;
+  ratings: VersionRating[];
 }
 
-export default function RatingSelector({ versionId, currentRating }: RatingSelectorProps) {
+export default function RatingSelector({ versionId, currentRating, ratings }: RatingSelectorProps) {
   const dbOps = useDB();
-  const { updateVersionRating } = useAppStore();
+  const { updateVersionRating, updateVersionRatings, reviewers, currentReviewerId } = useAppStore();
+
+  const hasReviewers = reviewers.length > 0;
+  const ownRating = hasReviewers
+    ? ratings.find((r) => r.reviewerId === currentReviewerId)?.rating ?? null
+    : currentRating !== null ? Math.round(currentRating) : null;
+  const stats = hasReviewers ? getRatingStats(ratings) : null;
+  const canRate = !hasReviewers || currentReviewerId !== null;
 
   const handleRating = async (rating: number) => {
     // If clicking the same rating, clear it
-    const newRating = rating === currentRating ? null : rating;
+    const newRating = rating === ownRating ? null : rating;
 
     try {
-      await dbOps.updateVersionRating(versionId, newRating);
-      updateVersionRating(versionId, newRating);
+      if (hasReviewers && currentReviewerId !== null) {
+        const result = await dbOps.rateVersion(versionId, currentReviewerId, newRating);
+        updateVersionRatings(versionId, result.ratings, result.average);
+      } else {
+        await dbOps.updateVersionRating(versionId, newRating);
+        updateVersionRating(versionId, newRating);
+      }
     } catch (error) {
       console.error('Failed to update rating:', error);
     }
   };
 
   return (
-    <div className="flex gap-1">
-      {Array.from({ length: 5 }).map((_, i) => {
-        const starValue = i + 1;
-        const isFilled = currentRating !== null && starValue <= currentRating;
+    <div className="flex items-center gap-2">
+      <div className="flex gap-1" title={canRate ? undefined : 'Pick who you are in the header to rate'}>
+        {Array.from({ length: 5 }).map((_, i) => {
+          const starValue = i + 1;
+          const isFilled = ownRating !== null && starValue <= ownRating;
 
-        return (
-          <button
-            key={i}
-            onClick={() => handleRating(starValue)}
-            className="p-1 hover:scale-110 transition-transform"
-            title={`${starValue} star${starValue > 1 ? 's' : ''}`}
-          >
-            <Star
-              size={18}
-              className={
-                isFilled
-                  ? 'fill-yellow-400 text-yellow-400'
-                  : 'text-gray-600 hover:text-yellow-400'
-              }
-            />
-          </button>
-        );
-      })}
+          return (
+            <button
+              key={i}
+              onClick={() => handleRating(starValue)}
+              disabled={!canRate}
+              className="p-1 enabled:hover:scale-110 transition-transform disabled:opacity-50"
+              title={canRate ? `${starValue} star${starValue > 1 ? 's' : ''}` : undefined}
+            >
+              <Star
+                size={18}
+                className={
+                  isFilled
+                    ? 'fill-yellow-400 text-yellow-400'
+                    : 'text-gray-600 hover:text-yellow-400'
+                }
+              />
+            </button>
+          );
+        })}
+      </div>
+      {stats && (
+        <span className="text-xs text-gray-400 whitespace-nowrap" title={describeRatings(ratings, reviewers)}>
+          {formatRatingStats(stats)} · {stats.count} rating{stats.count === 1 ? '' : 's'}
+        </span>
+      )}
     </div>
   );
 }
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { FolderSync, Music } from 'lucide-react';
+import Modal from './Modal';
+import { useDB } from '@hooks/useDB';
+import { SongWithVersions } from '@types';
+import { RelinkResult } from '@lib/relink';
+
+/**
+ * Relink dialog - lets the user point songs at their folders again
+ * Used after restoring a backup or when a folder was moved or renamed
+ */
+interface RelinkFoldersDialogProps {
+  songs: SongWithVersions[];
+  onRelinked: () => void;
+  onClose: () => void;
+}
+
+export default function RelinkFoldersDialog({ songs, onRelinked, onClose }: RelinkFoldersDialogProps) {
+  const dbOps = useDB();
+  const [results, setResults] = useState<Record<number, RelinkResult>>({});
+  const [workingSongId, setWorkingSongId] = useState<number | null>(null);
+
+  const handleRelink = async (songId: number) => {
+    setWorkingSongId(songId);
+    try {
+      const result = await dbOps.relinkSongFolder(songId);
+      if (result) {
+        setResults((prev) => ({ ...prev, [songId]: result }));
+        onRelinked();
+      }
+    } catch (error) {
+      console.error('Failed to relink song folder:', error);
+    } finally {
+      setWorkingSongId(null);
+    }
+  };
+
+  return (
+    <Modal
+      title="Re-link song folders"
+      onClose={onClose}
+      footer={
+        <button onClick={onClose} className="btn btn-primary btn-sm">
+          Done
+        </button>
+      }
+    >
+      <p className="text-sm text-gray-400 mb-4">
+        Choose each song's new folder. Files are matched by path, name, size and duration, and every
+        version keeps its notes, tags and ratings.
+      </p>
+
+      <div className="space-y-2">
+        {songs.map((song) => {
+          const result = results[song.id!];
+
+          return (
+            <div key={song.id} className="flex items-center gap-3 px-3 py-2 bg-gray-900/50 rounded">
+              <Music size={16} className="text-gray-400" />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm truncate">{song.name}</div>
+                <div className="text-xs text-gray-500">
+                  {result
+                    ? `${result.matched} file(s) found, ${result.unmatched} missing`
+                    : `${song.versions.length} version(s)`}
+                </div>
+              </div>
+              <button
+                onClick={() => handleRelink(song.id!)}
+                disabled={workingSongId !== null}
+                className="btn btn-ghost btn-sm flex items-center gap-1 border border-gray-600"
+              >
+                <FolderSync size={14} />
+                {result ? 'Choose again' : 'Choose folder'}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,63 @@
+import { User, Users } from 'lucide-react';
+import { useAppStore } from '../store/appStore';
+import { useDB } from '@hooks/useDB';
+
+/**
+ * Reviewer picker - who is rating and writing notes in this browser
+ * Until reviewers are set up it's just the button that opens the reviewers dialog
+ */
+interface ReviewerPickerProps {
+  onManage: () => void;
+}
+
+export default function ReviewerPicker({ onManage }: ReviewerPickerProps) {
+  const dbOps = useDB();
+  const { reviewers, currentReviewerId, setCurrentReviewerId } = useAppStore();
+
+  const current = reviewers.find((r) => r.id === currentReviewerId);
+
+  const handleChange = async (reviewerId: number | null) => {
+    try {
+      await dbOps.setCurrentReviewer(reviewerId);
+      setCurrentReviewerId(reviewerId);
+    } catch (error) {
+      console.error('Failed to switch reviewer:', error);
+    }
+  };
+
+  if (reviewers.length === 0) {
+    return (
+      <button
+        onClick={onManage}
+        className="btn btn-ghost btn-sm flex items-center gap-2"
+        title="Set up reviewers to rate and write notes per person"
+      >
+        <Users size={16} />
+        Reviewers
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <User size={16} style={{ color: current?.color }} className={current ? '' : 'text-gray-500'} />
+      <select
+        value={currentReviewerId ?? ''}
+        onChange={(e) => handleChange(e.target.value ? parseInt(e.target.value) : null)}
+        className="select-styled text-sm pl-2 py-1"
+        style={{ color: current?.color }}
+        title="Who is listening"
+      >
+        <option value="">Who's listening?</option>
+        {reviewers.map((r) => (
+          <option key={r.id} value={r.id}>
+            {r.name}
+          </option>
+        ))}
+      </select>
+      <button onClick={onManage} className="p-1 text-gray-400 hover:text-gray-200" title="Manage reviewers">
+        <Users size={16} />
+      </button>
+    </div>
+  );
+}
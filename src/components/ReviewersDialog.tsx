@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import Modal from './Modal';
+import { useAppStore } from '../store/appStore';
+import { useDB } from '@hooks/useDB';
+import { Reviewer } from '@lib/db';
+import { pickReviewerColor } from '@lib/reviewers';
+
+/**
+ * Reviewers dialog - the people who rate versions and write notes in this library
+ * Add, rename and recolor reviewers or delete them; changes apply right away
+ * The first reviewer added takes over the ratings given before there were reviewers
+ */
+interface ReviewersDialogProps {
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export default function ReviewersDialog({ onClose, onChanged }: ReviewersDialogProps) {
+  const dbOps = useDB();
+  const { reviewers, setReviewers, currentReviewerId, setCurrentReviewerId } = useAppStore();
+  const [names, setNames] = useState<Record<number, string>>({});
+  const [colors, setColors] = useState<Record<number, string>>({});
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState(() => pickReviewerColor(reviewers));
+
+  const isNameTaken = (name: string, exceptId?: number) =>
+    reviewers.some((r) => r.id !== exceptId && r.name.toLowerCase() === name.trim().toLowerCase());
+
+  const reload = async () => {
+    const [loadedReviewers, currentId] = await Promise.all([dbOps.getReviewers(), dbOps.getCurrentReviewerId()]);
+    setReviewers(loadedReviewers);
+    setCurrentReviewerId(currentId);
+    onChanged();
+    return loadedReviewers;
+  };
+
+  const handleAdd = async () => {
+    const name = newName.trim();
+    if (!name || isNameTaken(name)) return;
+
+    try {
+      const id = await dbOps.createReviewer(name, newColor);
+      // Whoever sets up the first profile is the one using this browser
+      if (currentReviewerId === null) await dbOps.setCurrentReviewer(id);
+      const loadedReviewers = await reload();
+      setNewName('');
+      setNewColor(pickReviewerColor(loadedReviewers));
+    } catch (error) {
+      console.error('Failed to add reviewer:', error);
+    }
+  };
+
+  const handleUpdate = async (reviewer: Reviewer, name: string, color: string) => {
+    try {
+      await dbOps.updateReviewer(reviewer.id!, name, color);
+      await reload();
+    } catch (error) {
+      console.error('Failed to update reviewer:', error);
+    }
+  };
+
+  const handleRename = (reviewer: Reviewer) => {
+    const name = names[reviewer.id!]?.trim();
+    setNames(({ [reviewer.id!]: _, ...rest }) => rest);
+    if (!name || name === reviewer.name || isNameTaken(name, reviewer.id)) return;
+    handleUpdate(reviewer, name, reviewer.color);
+  };
+
+  // The picker fires on every drag step, save once it's closed
+  const handleColorCommit = (reviewer: Reviewer) => {
+    const color = colors[reviewer.id!];
+    setColors(({ [reviewer.id!]: _, ...rest }) => rest);
+    if (color === undefined || color === reviewer.color) return;
+    handleUpdate(reviewer, reviewer.name, color);
+  };
+
+  const handleDelete = async (reviewer: Reviewer) => {
+    if (!confirm(`Delete "${reviewer.name}"? Their ratings are removed; their notes stay without an author.`)) return;
+
+    try {
+      await dbOps.deleteReviewer(reviewer.id!);
+      await reload();
+    } catch (error) {
+      console.error('Failed to delete reviewer:', error);
+    }
+  };
+
+  return (
+    <Modal title="Reviewers" onClose={onClose}>
+      <div className="space-y-4 text-sm">
+        {reviewers.length === 0 ? (
+          <p className="text-gray-500">
+            Add everyone who listens to the bounces. Each reviewer rates versions separately and their notes are
+            marked with their color. The first reviewer takes over the ratings you've given so far.
+          </p>
+        ) : (
+          <div>
+            {reviewers.map((reviewer) => (
+              <div key={reviewer.id} className="flex items-center gap-2 py-1">
+                <input
+                  type="color"
+                  value={colors[reviewer.id!] ?? reviewer.color}
+                  onChange={(e) => setColors({ ...colors, [reviewer.id!]: e.target.value })}
+                  onBlur={() => handleColorCommit(reviewer)}
+                  className="w-6 h-6 cursor-pointer shrink-0"
+                  title="Color"
+                />
+                <input
+                  type="text"
+                  value={names[reviewer.id!] ?? reviewer.name}
+                  onChange={(e) => setNames({ ...names, [reviewer.id!]: e.target.value })}
+                  onBlur={() => handleRename(reviewer)}
+                  onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                  className="bg-gray-700 rounded px-2 py-1 flex-1 min-w-0 outline-none"
+                  style={{ color: colors[reviewer.id!] ?? reviewer.color }}
+                />
+                {reviewer.id === currentReviewerId && <span className="text-xs text-gray-500">You</span>}
+                <button
+                  onClick={() => handleDelete(reviewer)}
+                  className="p-1 text-gray-400 hover:text-red-400"
+                  title="Delete reviewer"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <input
+            type="color"
+            value={newColor}
+            onChange={(e) => setNewColor(e.target.value)}
+            className="w-6 h-6 cursor-pointer shrink-0"
+            title="Color"
+          />
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="Name"
+            className="bg-gray-700 rounded px-2 py-1 flex-1 min-w-0 outline-none"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!newName.trim() || isNameTaken(newName)}
+            className="btn btn-primary btn-sm flex items-center gap-1"
+          >
+            <Plus size={14} />
+            Add
+          </button>
+        </div>
+        {newName.trim() && isNameTaken(newName) && (
+          <p className="text-xs text-red-400">A reviewer with this name already exists.</p>
+        )}
+      </div>
+    </Modal>
+  );
+}
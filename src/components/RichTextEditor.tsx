@@ -3,13 +3,19 @@ import StarterKit from '@tiptap/starter-kit';
 import Placeholder from '@tiptap/extension-placeholder';
 import { useAppStore } from '../store/appStore';
 import { useDB } from '@hooks/useDB';
-import { useState, forwardRef, useImperativeHandle } from 'react';
+import { useEffect, useState, forwardRef, useImperativeHandle } from 'react';
 import { Note } from '@types';
-import { Clock, Trash2 } from 'lucide-react';
+import { NoteStatus } from '@lib/db';
+import { Trash2, Repeat, Reply, User, Forward } from 'lucide-react';
+import { TIMESTAMP_SELECTOR, findTimeRange } from '@lib/timestamps';
+import { TimestampNode } from '@lib/timestampNode';
+import { NOTE_STATUS_LABELS, buildNoteThreads, getNoteStatus } from '@lib/noteThreads';
 
 /**
  * Rich text editor component for notes
- * Supports timestamp mentions like @0:30 that link to audio positions
+ * Typing @0:30, @1:02:03 or a range like @1:05-1:32 turns it into a timestamp chip that seeks the audio
+ * The first chip in a note sets the note's time range
+ * Notes are review threads: each one is open, resolved or won't fix, can be assigned and takes replies
  */
 interface RichTextEditorProps {
   versionId: number;
@@ -17,16 +23,29 @@ interface RichTextEditorProps {
 
 export interface RichTextEditorHandle {
   insertTimestamp: (seconds: number) => void;
+  insertTimeRange: (start: number, end: number) => void;
 }
 
+type StatusFilter = NoteStatus | 'all';
+
+const STATUS_STYLES: Record<NoteStatus, string> = {
+  open: 'text-amber-400',
+  resolved: 'text-green-400',
+  wontfix: 'text-gray-500',
+};
+
 const RichTextEditor = forwardRef<RichTextEditorHandle, RichTextEditorProps>(({ versionId }, ref) => {
   const dbOps = useDB();
-  const { notes, setNotes, requestSeek } = useAppStore();
+  const { notes, setNotes, setSongs, selectedSong, reviewers, currentReviewerId, requestSeek, highlightedNoteId, setHighlightedNoteId, startLoop } = useAppStore();
   const [editingNoteId, setEditingNoteId] = useState<number | null>(null);
+  const [replyingToId, setReplyingToId] = useState<number | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [assigneeDrafts, setAssigneeDrafts] = useState<Record<number, string>>({});
 
   const editor = useEditor({
     extensions: [
       StarterKit,
+      TimestampNode,
       Placeholder.configure({
         placeholder: 'Write your notes here... Use @0:30 for timestamps',
       }),
@@ -43,44 +62,53 @@ const RichTextEditor = forwardRef<RichTextEditorHandle, RichTextEditorProps>(({
     insertTimestamp: (seconds: number) => {
       if (!editor) return;
 
-      // If we are not editing any note, we are in "New Note" mode (which uses the main editor instance)
-      // If we ARE editing a note, the editor instance is bound to that note context?
-      // Actually, looking at the code below, existing notes share the SAME editor instance??
-      // No, `useEditor` is called once at the top level.
-      // And `startEditingNote` sets content.
-      // So yes, `editor` is the single instance used for either new note or editing existing.
-
-      // If we're not currently editing a note, ensure we're ready for a new one
-      // (This behavior assumes double-click adds to the ACTIVE editor, usually "New Note" if nothing else is selected)
+      // One editor instance serves both the new note and the note being edited,
+      // so the chip lands in whichever is open, at the cursor
+      editor.chain().insertTimestamp({ start: Math.floor(seconds), end: null }).focus().run();
+    },
 
-      const timestamp = formatTimestamp(seconds);
-      const text = `@${timestamp} `;
+    insertTimeRange: (start: number, end: number) => {
+      if (!editor) return;
 
-      // Insert at current cursor position or at end
-      editor.commands.insertContent(text);
-      editor.commands.focus();
+      editor.chain().insertTimestamp({ start, end: end > start ? end : null }).focus().run();
     }
   }));
 
+  // Scroll to a note picked on the waveform and flash it
+  useEffect(() => {
+    if (highlightedNoteId === null) return;
+
+    document.getElementById(`note-${highlightedNoteId}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    const timeout = setTimeout(() => setHighlightedNoteId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedNoteId, setHighlightedNoteId]);
+
+  // The song browser shows note and open issue counts per version
+  const refreshCounts = async () => {
+    try {
+      setSongs(await dbOps.getSongs());
+    } catch (error) {
+      console.error('Failed to refresh note counts:', error);
+    }
+  };
+
+  // Creates a top-level note, or a reply while replying to a thread
   const handleCreateNote = async () => {
     if (!editor || editor.isEmpty) return;
 
     const content = editor.getHTML();
 
-    // Parse timestamps from content
-    const timestampMatch = content.match(/@(\d+):(\d+)/);
-    let timestamp: number | null = null;
-
-    if (timestampMatch) {
-      const minutes = parseInt(timestampMatch[1]);
-      const seconds = parseInt(timestampMatch[2]);
-      timestamp = minutes * 60 + seconds;
-    }
+    // The first timestamp chip sets the note's range
+    const range = findTimeRange(content);
 
     try {
-      const note = await dbOps.createNote(versionId, content, timestamp);
+      const note = await dbOps.createNote(
+        versionId, content, range?.start ?? null, range?.end ?? null, replyingToId, currentReviewerId
+      );
       setNotes([...notes, note]);
+      setReplyingToId(null);
       editor.commands.clearContent();
+      refreshCounts();
     } catch (error) {
       console.error('Failed to create note:', error);
     }
@@ -90,11 +118,14 @@ const RichTextEditor = forwardRef<RichTextEditorHandle, RichTextEditorProps>(({
     if (!editor || editor.isEmpty) return;
 
     const content = editor.getHTML();
+    const range = findTimeRange(content);
+    const startTime = range?.start ?? null;
+    const endTime = range?.end ?? null;
 
     try {
-      await dbOps.updateNote(noteId, content);
+      await dbOps.updateNote(noteId, content, startTime, endTime);
       const updatedNotes = notes.map((n) =>
-        n.id === noteId ? { ...n, content, updatedAt: new Date().toISOString() } : n
+        n.id === noteId ? { ...n, content, startTime, endTime, updatedAt: new Date().toISOString() } : n
       );
       setNotes(updatedNotes);
       setEditingNoteId(null);
@@ -105,118 +136,260 @@ const RichTextEditor = forwardRef<RichTextEditorHandle, RichTextEditorProps>(({
   };
 
   const handleDeleteNote = async (noteId: number) => {
-    if (!confirm('Delete this note?')) return;
+    const replyCount = notes.filter((n) => n.parentId === noteId).length;
+    if (!confirm(replyCount > 0 ? `Delete this note and its ${replyCount} repl${replyCount === 1 ? 'y' : 'ies'}?` : 'Delete this note?')) return;
 
     try {
       await dbOps.deleteNote(noteId);
-      setNotes(notes.filter((n) => n.id !== noteId));
+      setNotes(notes.filter((n) => n.id !== noteId && n.parentId !== noteId));
+      refreshCounts();
     } catch (error) {
       console.error('Failed to delete note:', error);
     }
   };
 
+  const handleStatusChange = async (noteId: number, status: NoteStatus) => {
+    try {
+      await dbOps.updateNoteStatus(noteId, status);
+      setNotes(notes.map((n) => (n.id === noteId ? { ...n, status } : n)));
+      refreshCounts();
+    } catch (error) {
+      console.error('Failed to update note status:', error);
+    }
+  };
+
+  const handleAssigneeCommit = async (note: Note) => {
+    const draft = assigneeDrafts[note.id!];
+    setAssigneeDrafts(({ [note.id!]: _, ...rest }) => rest);
+    if (draft === undefined || draft.trim() === (note.assignee || '')) return;
+
+    try {
+      await dbOps.updateNoteAssignee(note.id!, draft);
+      setNotes(notes.map((n) => (n.id === note.id ? { ...n, assignee: draft.trim() || null } : n)));
+    } catch (error) {
+      console.error('Failed to update assignee:', error);
+    }
+  };
+
   const startEditingNote = (note: Note) => {
+    setReplyingToId(null);
     setEditingNoteId(note.id);
     editor?.commands.setContent(note.content);
   };
 
-  const cancelEditing = () => {
+  const startReplying = (noteId: number) => {
     setEditingNoteId(null);
+    setReplyingToId(noteId);
     editor?.commands.clearContent();
+    editor?.commands.focus();
   };
 
-  const formatTimestamp = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
-  };
-
-  const parseTimestampsInContent = (html: string) => {
-    return html.replace(/@(\d+):(\d+)/g, (_match, mins, secs) => {
-      const seconds = parseInt(mins) * 60 + parseInt(secs);
-      // Use data attribute for easier delegation
-      return `<button class="timestamp-link hover:underline cursor-pointer font-mono text-sm bg-black text-amber-500 px-1.5 py-0.5 rounded" data-timestamp="${seconds}">${mins}:${secs}</button>`;
-    });
+  const cancelEditing = () => {
+    setEditingNoteId(null);
+    setReplyingToId(null);
+    editor?.commands.clearContent();
   };
 
+  // Chips seek the player, both in saved notes and inside the editor
   const handleTimestampClick = (e: React.MouseEvent) => {
     const target = e.target as HTMLElement;
-    const button = target.closest('.timestamp-link');
-    if (button) {
-      const seconds = parseInt(button.getAttribute('data-timestamp') || '0');
+    const chip = target.closest<HTMLElement>(TIMESTAMP_SELECTOR);
+    if (chip) {
+      const seconds = parseFloat(chip.dataset.timestamp || '0');
       requestSeek(versionId, seconds);
     }
   };
 
-  return (
-    <div className="space-y-4" onClick={handleTimestampClick}>
-      {/* Existing notes */}
-      <div className="space-y-3">
-        {notes
-          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-          .map((note) => (
-            <div
-              key={note.id}
-              className="card p-3 hover:border-gray-600 transition-colors"
+  const threads = buildNoteThreads(notes);
+  const visibleThreads = statusFilter === 'all'
+    ? threads
+    : threads.filter((thread) => getNoteStatus(thread.note) === statusFilter);
+  const countByStatus = (status: NoteStatus) => threads.filter((t) => getNoteStatus(t.note) === status).length;
+
+  const renderAuthor = (note: Note) => {
+    const author = reviewers.find((r) => r.id === note.authorId);
+    if (!author) return null;
+    return (
+      <span className="flex items-center gap-1" style={{ color: author.color }} title="Author">
+        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: author.color }} />
+        {author.name}
+      </span>
+    );
+  };
+
+  // Carried notes keep showing their origin after that version is gone
+  const getVersionName = (versionId: number) =>
+    selectedSong?.versions.find((v) => v.id === versionId)?.versionName ?? 'a removed version';
+
+  const renderNote = (note: Note, isReply: boolean) => (
+    <div
+      key={note.id}
+      id={`note-${note.id}`}
+      className={`${isReply ? 'ml-6 mt-2 pl-3 border-l-2 border-gray-700' : ''} ${
+        highlightedNoteId === note.id ? 'ring-2 ring-amber-500 rounded' : ''
+      }`}
+    >
+      {editingNoteId === note.id ? (
+        <div>
+          <EditorContent editor={editor} className="border border-gray-700 rounded" />
+          <div className="flex gap-2 mt-2">
+            <button
+              onClick={() => handleUpdateNote(note.id)}
+              className="btn btn-primary btn-sm text-sm"
             >
-              {editingNoteId === note.id ? (
-                <div>
-                  <EditorContent editor={editor} className="border border-gray-700 rounded" />
-                  <div className="flex gap-2 mt-2">
-                    <button
-                      onClick={() => handleUpdateNote(note.id)}
-                      className="btn btn-primary btn-sm text-sm"
-                    >
-                      Save
-                    </button>
-                    <button
-                      onClick={cancelEditing}
-                      className="btn btn-ghost btn-sm text-sm"
-                    >
-                      Cancel
-                    </button>
-                  </div>
-                </div>
-              ) : (
-                <div>
-                  <div className="flex items-start gap-3">
-                    <div className="flex-1 min-w-0">
-                      <div
-                        className="prose prose-xs prose-invert max-w-none"
-                        dangerouslySetInnerHTML={{ __html: parseTimestampsInContent(note.content) }}
-                      />
-                    </div>
-                    <div className="flex gap-1">
-                      <button
-                        onClick={() => startEditingNote(note)}
-                        className="text-gray-400 hover:text-gray-200 p-1"
-                        title="Edit note"
-                      >
-                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                          <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7" />
-                          <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z" />
-                        </svg>
-                      </button>
-                      <button
-                        onClick={() => handleDeleteNote(note.id)}
-                        className="text-gray-400 hover:text-red-400 p-1"
-                        title="Delete note"
-                      >
-                        <Trash2 size={16} />
-                      </button>
-                    </div>
-                  </div>
-                  <div className="text-xs text-gray-500 mt-2">
-                    {new Date(note.createdAt).toLocaleString()}
-                  </div>
-                </div>
+              Save
+            </button>
+            <button
+              onClick={cancelEditing}
+              className="btn btn-ghost btn-sm text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div>
+          <div className="flex items-start gap-3">
+            <div className="flex-1 min-w-0">
+              <div
+                className="prose prose-xs prose-invert max-w-none"
+                dangerouslySetInnerHTML={{ __html: note.content }}
+              />
+            </div>
+            <div className="flex gap-1">
+              {note.startTime !== null && note.endTime !== null && (
+                <button
+                  onClick={() => startLoop(versionId, note.startTime!, note.endTime!)}
+                  className="text-gray-400 hover:text-green-400 p-1"
+                  title="Loop this note"
+                >
+                  <Repeat size={16} />
+                </button>
+              )}
+              {!isReply && (
+                <button
+                  onClick={() => startReplying(note.id!)}
+                  className="text-gray-400 hover:text-gray-200 p-1"
+                  title="Reply"
+                >
+                  <Reply size={16} />
+                </button>
               )}
+              <button
+                onClick={() => startEditingNote(note)}
+                className="text-gray-400 hover:text-gray-200 p-1"
+                title="Edit note"
+              >
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7" />
+                  <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z" />
+                </svg>
+              </button>
+              <button
+                onClick={() => handleDeleteNote(note.id)}
+                className="text-gray-400 hover:text-red-400 p-1"
+                title="Delete note"
+              >
+                <Trash2 size={16} />
+              </button>
             </div>
+          </div>
+          <div className="flex items-center gap-3 text-xs text-gray-500 mt-2">
+            {!isReply && (
+              <>
+                <select
+                  value={getNoteStatus(note)}
+                  onChange={(e) => handleStatusChange(note.id!, e.target.value as NoteStatus)}
+                  className={`select-styled text-xs pl-2 py-0.5 ${STATUS_STYLES[getNoteStatus(note)]}`}
+                  title="Status"
+                >
+                  {Object.entries(NOTE_STATUS_LABELS).map(([status, label]) => (
+                    <option key={status} value={status}>{label}</option>
+                  ))}
+                </select>
+                <span className="flex items-center gap-1">
+                  <User size={12} />
+                  <input
+                    type="text"
+                    value={assigneeDrafts[note.id!] ?? note.assignee ?? ''}
+                    onChange={(e) => setAssigneeDrafts({ ...assigneeDrafts, [note.id!]: e.target.value })}
+                    onBlur={() => handleAssigneeCommit(note)}
+                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                    placeholder="Unassigned"
+                    className="bg-transparent outline-none w-24 focus:bg-gray-700 rounded px-1"
+                  />
+                </span>
+              </>
+            )}
+            {note.carriedFromVersionId && (
+              <span className="flex items-center gap-1" title="Carried forward from another version">
+                <Forward size={12} />
+                {getVersionName(note.carriedFromVersionId)}
+              </span>
+            )}
+            <span className="ml-auto flex items-center gap-2">
+              {renderAuthor(note)}
+              {new Date(note.createdAt).toLocaleString()}
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4" onClick={handleTimestampClick}>
+      {/* Status filter */}
+      {threads.length > 0 && (
+        <div className="flex gap-1 text-xs">
+          {(['all', 'open', 'resolved', 'wontfix'] as StatusFilter[]).map((status) => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`px-2 py-0.5 rounded ${
+                statusFilter === status ? 'bg-primary-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+              }`}
+            >
+              {status === 'all' ? `All ${threads.length}` : `${NOTE_STATUS_LABELS[status]} ${countByStatus(status)}`}
+            </button>
           ))}
+        </div>
+      )}
+
+      {/* Existing notes, one card per thread */}
+      <div className="space-y-3">
+        {visibleThreads.map(({ note, replies }) => (
+          <div
+            key={note.id}
+            className={`card p-3 hover:border-gray-600 transition-colors ${
+              getNoteStatus(note) !== 'open' ? 'opacity-70' : ''
+            }`}
+          >
+            {renderNote(note, false)}
+            {replies.map((reply) => renderNote(reply, true))}
+            {replyingToId === note.id && (
+              <div className="ml-6 mt-2">
+                <EditorContent editor={editor} className="border border-gray-700 rounded" />
+                <div className="flex gap-2 mt-2">
+                  <button
+                    onClick={handleCreateNote}
+                    className="btn btn-primary btn-sm text-sm"
+                    disabled={!editor || editor.isEmpty}
+                  >
+                    Reply
+                  </button>
+                  <button onClick={cancelEditing} className="btn btn-ghost btn-sm text-sm">
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
       </div>
 
       {/* New note editor */}
-      {editingNoteId === null && (
+      {editingNoteId === null && replyingToId === null && (
         <div className="card p-3">
           <label className="text-sm font-semibold text-gray-400 mb-2 block">
             New Note
@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState } from 'react';
+import { Search, Music, FileAudio, MessageSquare, Tag, Image, X } from 'lucide-react';
+import { useAppStore } from '../store/appStore';
+import { useSelectVersion } from '@hooks/useSelectVersion';
+import { SearchKind, SearchResult, SongSearchResults, search } from '@lib/search';
+import { formatTimestamp } from '@lib/timestamps';
+import { isTypingTarget } from '@lib/keyboard';
+
+/**
+ * Search box - finds songs, versions, notes, tags and image captions across the library
+ * Results are grouped by song; a note or pinned image hit opens its version at that moment
+ * Ctrl+K or / focuses the box, Escape closes the results
+ */
+const KIND_ICONS: Record<SearchKind, typeof Search> = {
+  song: Music,
+  version: FileAudio,
+  note: MessageSquare,
+  tag: Tag,
+  image: Image,
+};
+
+const SEARCH_DELAY = 150; // ms after the last keystroke
+
+export default function SearchBox() {
+  const { songs, requestSeek, setHighlightedNoteId } = useAppStore();
+  const selectVersion = useSelectVersion();
+  const [query, setQuery] = useState('');
+  const [groups, setGroups] = useState<SongSearchResults[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setGroups([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      search(query)
+        .then((results) => {
+          if (!cancelled) setGroups(results);
+        })
+        .catch((error) => console.error('Search failed:', error));
+    }, SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  // Ctrl+K or / to search from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.key === 'k' && (e.ctrlKey || e.metaKey)) || (e.key === '/' && !isTypingTarget(e.target))) {
+        e.preventDefault();
+        inputRef.current?.focus();
+        setIsOpen(true);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const openResult = async ({ document }: SearchResult) => {
+    const song = songs.find((s) => s.id === document.songId);
+    if (!song || song.versions.length === 0) return;
+
+    // A song hit opens its newest version
+    const version = document.versionId !== null
+      ? song.versions.find((v) => v.id === document.versionId)
+      : [...song.versions].sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+    if (!version) return;
+
+    setIsOpen(false);
+    await selectVersion(song, version);
+
+    if (document.kind === 'note') setHighlightedNoteId(document.id);
+    if (document.time !== null) requestSeek(version.id!, document.time);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setIsOpen(false);
+      inputRef.current?.blur();
+    } else if (e.key === 'Enter' && groups[0]) {
+      openResult(groups[0].results[0]);
+    }
+  };
+
+  const getVersionName = (songId: number, versionId: number | null) =>
+    songs.find((s) => s.id === songId)?.versions.find((v) => v.id === versionId)?.versionName;
+
+  const renderResult = (result: SearchResult) => {
+    const { document } = result;
+    const Icon = KIND_ICONS[document.kind];
+    const versionName = document.kind !== 'song' && document.kind !== 'version'
+      ? getVersionName(document.songId, document.versionId)
+      : null;
+
+    return (
+      <button
+        key={document.key}
+        onClick={() => openResult(result)}
+        className="w-full text-left px-3 py-1.5 hover:bg-gray-700 flex items-start gap-2"
+      >
+        <Icon size={14} className="text-gray-500 mt-0.5 shrink-0" />
+        <div className="min-w-0 flex-1">
+          <div className="text-sm truncate">{result.snippet}</div>
+          {(versionName || document.time !== null) && (
+            <div className="text-xs text-gray-500 truncate">
+              {versionName}
+              {document.time !== null && <span className="font-mono ml-2">@{formatTimestamp(document.time)}</span>}
+            </div>
+          )}
+        </div>
+      </button>
+    );
+  };
+
+  return (
+    <div ref={containerRef} className="relative w-80">
+      <div className="flex items-center gap-2 bg-gray-700 rounded px-2 py-1">
+        <Search size={14} className="text-gray-400" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search notes, versions, tags… (Ctrl+K)"
+          className="bg-transparent text-sm flex-1 outline-none"
+        />
+        {query && (
+          <button onClick={() => setQuery('')} className="text-gray-400 hover:text-gray-200" title="Clear">
+            <X size={14} />
+          </button>
+        )}
+      </div>
+
+      {isOpen && query.trim() && (
+        <div className="absolute right-0 mt-1 w-[28rem] max-h-[70vh] overflow-y-auto custom-scrollbar bg-gray-800 border border-gray-700 rounded shadow-lg z-50">
+          {groups.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-gray-500">No matches</p>
+          ) : (
+            groups.map((group) => (
+              <div key={group.songId} className="py-1 border-b border-gray-700 last:border-b-0">
+                <div className="px-3 py-1 text-xs font-semibold text-gray-400 uppercase tracking-wide">
+                  {group.songName}
+                </div>
+                {group.results.map(renderResult)}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import Modal from './Modal';
+import FormatPolicyEditor from './FormatPolicyEditor';
+import { useDB } from '@hooks/useDB';
+import { FormatPolicy, MismatchThresholds } from '@lib/db';
+
+/**
+ * Settings dialog - library-wide preferences
+ * The default format policy applies to every song without its own,
+ * the mismatch thresholds decide when formats of a version get flagged
+ */
+interface SettingsDialogProps {
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export default function SettingsDialog({ onClose, onSaved }: SettingsDialogProps) {
+  const dbOps = useDB();
+  const [formatPolicy, setFormatPolicy] = useState<FormatPolicy | null>(null);
+  const [thresholds, setThresholds] = useState<MismatchThresholds | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    Promise.all([dbOps.getFormatPolicy(), dbOps.getMismatchThresholds()])
+      .then(([policy, loadedThresholds]) => {
+        setFormatPolicy(policy);
+        setThresholds(loadedThresholds);
+      })
+      .catch((error) => console.error('Failed to load settings:', error));
+  }, []);
+
+  const handleSave = async () => {
+    if (!formatPolicy || !thresholds) return;
+
+    setIsSaving(true);
+    try {
+      await dbOps.updateFormatPolicy(formatPolicy);
+      await dbOps.updateMismatchThresholds(thresholds);
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Failed to save settings:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      title="Settings"
+      onClose={onClose}
+      footer={
+        <>
+          <button onClick={onClose} className="btn btn-ghost btn-sm">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="btn btn-primary btn-sm"
+            disabled={!formatPolicy || !thresholds || isSaving}
+          >
+            Save
+          </button>
+        </>
+      }
+    >
+      <div className="space-y-4 text-sm">
+        <div className="space-y-2">
+          <label className="text-xs font-semibold text-gray-400 uppercase tracking-wide block">
+            Default format
+          </label>
+          {formatPolicy && <FormatPolicyEditor policy={formatPolicy} onChange={setFormatPolicy} />}
+          <p className="text-xs text-gray-500">
+            Decides which format a version plays until you pick one by hand. Songs can override it in their settings.
+          </p>
+        </div>
+
+        {thresholds && (
+          <div className="space-y-2 pt-2 border-t border-gray-700">
+            <label className="text-xs font-semibold text-gray-400 uppercase tracking-wide block">
+              Format mismatch warnings
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              Duration tolerance
+              <span className="flex items-center gap-1 text-xs text-gray-400">
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={0.5}
+                  value={Math.round(thresholds.durationTolerance * 1000) / 10}
+                  onChange={(e) =>
+                    setThresholds({ ...thresholds, durationTolerance: Math.max(0, parseFloat(e.target.value) || 0) / 100 })
+                  }
+                  className="bg-gray-700 rounded px-2 py-1 w-20 text-right outline-none"
+                />
+                %
+              </span>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              Minimum content correlation
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={thresholds.minCorrelation}
+                onChange={(e) =>
+                  setThresholds({ ...thresholds, minCorrelation: Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)) })
+                }
+                className="bg-gray-700 rounded px-2 py-1 w-20 text-right outline-none"
+              />
+            </label>
+            <p className="text-xs text-gray-500">
+              Formats are compared with the highest quality one. Content is only compared after analysing a version's formats.
+            </p>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,64 @@
+import { ListFilter, Trash2 } from 'lucide-react';
+import { useAppStore } from '../store/appStore';
+import { useDB } from '@hooks/useDB';
+import { SmartView } from '@lib/db';
+import { describeFilter } from '@lib/versionFilter';
+
+/**
+ * Smart view list - saved filters shown above the songs
+ * Clicking a view applies its filter, clicking it again shows the whole library
+ */
+export default function SmartViewList() {
+  const dbOps = useDB();
+  const { smartViews, tags, activeSmartViewId, setSmartViews, setVersionFilter, clearVersionFilter } = useAppStore();
+
+  if (smartViews.length === 0) return null;
+
+  const tagNames = new Map(tags.map((t) => [t.id!, t.name]));
+
+  const handleSelect = (view: SmartView) => {
+    if (view.id === activeSmartViewId) {
+      clearVersionFilter();
+    } else {
+      setVersionFilter(view.filter, view.id!);
+    }
+  };
+
+  const handleDelete = async (view: SmartView, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!confirm(`Delete the smart view "${view.name}"?`)) return;
+
+    try {
+      await dbOps.deleteSmartView(view.id!);
+      setSmartViews(await dbOps.getSmartViews());
+      if (view.id === activeSmartViewId) clearVersionFilter();
+    } catch (error) {
+      console.error('Failed to delete smart view:', error);
+    }
+  };
+
+  return (
+    <div className="border-b border-gray-700 p-2">
+      {smartViews.map((view) => (
+        <div
+          key={view.id}
+          onClick={() => handleSelect(view)}
+          className={`flex items-center gap-2 px-2 py-1 rounded cursor-pointer group text-sm ${
+            view.id === activeSmartViewId ? 'bg-gray-800 text-primary-400' : 'hover:bg-gray-800'
+          }`}
+          title={describeFilter(view.filter, tagNames)}
+        >
+          <ListFilter size={14} className="text-gray-500" />
+          <span className="flex-1 truncate">{view.name}</span>
+          <button
+            onClick={(e) => handleDelete(view, e)}
+            className="opacity-0 group-hover:opacity-100 p-1 hover:text-red-400"
+            title="Delete smart view"
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,20 +1,52 @@
 import { useAppStore } from '../store/appStore';
 import { useDB } from '@hooks/useDB';
-import { Music, Star, Trash2, ChevronDown, ChevronRight, AlertTriangle, Plus, FileText } from 'lucide-react';
-import { useState } from 'react';
+import { useSelectVersion } from '@hooks/useSelectVersion';
+import { Music, Star, Trash2, ChevronDown, ChevronRight, AlertTriangle, Plus, FileText, RefreshCw, FileX, SlidersHorizontal, FolderX, FolderSync, Lock, Loader2, CircleDot, X } from 'lucide-react';
+import { useMemo, useState } from 'react';
 import { SongWithVersions, VersionWithTags } from '@types';
+import { ScanSettings, GroupingRules, FormatPolicy } from '@lib/db';
+import { countMissingFormats, getGroupingRules, formatLoudness } from '@lib/formatUtils';
+import { getFormatMismatches } from '@lib/mismatchReport';
+import { getScanSettings } from '@lib/scanSettings';
+import { getVersionDate, isFilterActive, matchesFilter } from '@lib/versionFilter';
+import { describeRatings, formatRatingStats, getRatingStats } from '@lib/reviewers';
+import SongSettingsDialog from './SongSettingsDialog';
+import FilterBar from './FilterBar';
+import SmartViewList from './SmartViewList';
 
 /**
  * Song browser component - displays songs and their versions in a tree structure
+ * While a filter is active only matching versions are listed, with their songs expanded
  */
 interface SongBrowserProps {
   onAddSongFolder: () => void;
 }
 
 export default function SongBrowser({ onAddSongFolder }: SongBrowserProps) {
-  const { songs, selectedVersion, setSelectedVersion, setSelectedSong, setNotes, setImages, removeSong, setSongs } = useAppStore();
+  const {
+    songs, selectedVersion, setSelectedVersion, removeSong, setSongs, songAccess, setSongAccess, mismatchThresholds,
+    versionFilter, reviewers,
+  } = useAppStore();
   const dbOps = useDB();
+  const selectVersion = useSelectVersion();
   const [expandedSongs, setExpandedSongs] = useState<Set<number>>(new Set());
+  const [rescanningSongId, setRescanningSongId] = useState<number | null>(null);
+  const [settingsSong, setSettingsSong] = useState<SongWithVersions | null>(null);
+  const [analyzingSongId, setAnalyzingSongId] = useState<number | null>(null);
+  const [scanSummary, setScanSummary] = useState<{ songId: number; message: string } | null>(null); // Last rescan or relink
+
+  const isFiltering = isFilterActive(versionFilter);
+  const totalVersions = songs.reduce((count, song) => count + song.versions.length, 0);
+
+  // Songs without a matching version drop out while filtering
+  const visibleSongs = useMemo(() => {
+    if (!isFiltering) return songs;
+    const now = Date.now();
+    return songs
+      .map((song) => ({ ...song, versions: song.versions.filter((v) => matchesFilter(v, versionFilter, now)) }))
+      .filter((song) => song.versions.length > 0);
+  }, [songs, versionFilter, isFiltering]);
+  const matchingVersions = visibleSongs.reduce((count, song) => count + song.versions.length, 0);
 
   const toggleSong = (songId: number) => {
     const newExpanded = new Set(expandedSongs);
@@ -27,19 +59,26 @@ export default function SongBrowser({ onAddSongFolder }: SongBrowserProps) {
   };
 
   const handleSelectVersion = async (song: SongWithVersions, version: VersionWithTags) => {
-    setSelectedSong(song);
-    setSelectedVersion(version);
+    // Ask for access up front so playback doesn't fail on a locked folder
+    if (songAccess[song.id!] === 'prompt' && !(await grantSongAccess(song.id!))) return;
+    // The filtered list only holds matching versions, select with the whole song
+    selectVersion(songs.find((s) => s.id === song.id) || song, version);
+  };
+
+  const handleGrantSongAccess = (songId: number, e: React.MouseEvent) => {
+    e.stopPropagation();
+    grantSongAccess(songId);
+  };
 
-    // Load notes and images for this version
+  // Returns true once the folder is readable again
+  const grantSongAccess = async (songId: number) => {
     try {
-      const [notes, images] = await Promise.all([
-        dbOps.getNotes(version.id),
-        dbOps.getImages(version.id),
-      ]);
-      setNotes(notes);
-      setImages(images);
+      const access = await dbOps.requestSongAccess([songId]);
+      setSongAccess(access);
+      return access[songId] === 'granted';
     } catch (error) {
-      console.error('Failed to load version details:', error);
+      console.error('Failed to request folder access:', error);
+      return false;
     }
   };
 
@@ -55,6 +94,80 @@ export default function SongBrowser({ onAddSongFolder }: SongBrowserProps) {
     }
   };
 
+  const handleRescanSong = (songId: number, e: React.MouseEvent) => {
+    e.stopPropagation();
+    rescanSong(songId);
+  };
+
+  const handleSaveSongSettings = async (
+    songId: number,
+    scanSettings: ScanSettings,
+    groupingRules: GroupingRules,
+    formatPolicy: FormatPolicy | null
+  ) => {
+    setSettingsSong(null);
+    try {
+      await dbOps.updateSongScanSettings(songId, scanSettings);
+      await dbOps.updateSongFormatPolicy(songId, formatPolicy);
+      // Regroup existing versions first so the rescan adds files under the new keys
+      await dbOps.updateSongGroupingRules(songId, groupingRules);
+      await rescanSong(songId);
+    } catch (error) {
+      console.error('Failed to update song settings:', error);
+    }
+  };
+
+  const rescanSong = async (songId: number) => {
+    if (rescanningSongId !== null) return;
+
+    setRescanningSongId(songId);
+    try {
+      const result = await dbOps.rescanSong(songId);
+      setScanSummary({
+        songId,
+        message: result.added + result.updated + result.missing === 0
+          ? 'Rescan: nothing changed'
+          : `Rescan: ${result.added} added, ${result.updated} updated, ${result.missing} missing`,
+      });
+
+      const updatedSongs = await dbOps.getSongs();
+      setSongs(updatedSongs);
+
+      // Keep the open version in sync with the rescanned data
+      if (selectedVersion?.songId === songId) {
+        const refreshed = updatedSongs
+          .find((s) => s.id === songId)
+          ?.versions.find((v) => v.id === selectedVersion.id);
+        setSelectedVersion(refreshed || null);
+      }
+    } catch (error) {
+      console.error('Failed to rescan song folder:', error);
+      setScanSummary({ songId, message: 'Rescan failed, see the console for details' });
+    } finally {
+      setRescanningSongId(null);
+    }
+  };
+
+  const handleRelinkSong = async (songId: number, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      const result = await dbOps.relinkSongFolder(songId);
+      if (!result) return;
+
+      setScanSummary({
+        songId,
+        message: `Re-linked: ${result.matched} file${result.matched === 1 ? '' : 's'} found, ${result.unmatched} missing`,
+      });
+      setSongAccess({ [songId]: 'granted' });
+
+      const updatedSongs = await dbOps.getSongs();
+      setSongs(updatedSongs);
+    } catch (error) {
+      console.error('Failed to relink song folder:', error);
+      setScanSummary({ songId, message: 'Re-link failed, see the console for details' });
+    }
+  };
+
   const handleSortChange = async (songId: number, sortPreference: string, e: React.MouseEvent) => {
     e.stopPropagation();
     try {
@@ -64,19 +177,51 @@ export default function SongBrowser({ onAddSongFolder }: SongBrowserProps) {
     } catch (error) {
       console.error('Failed to update sort preference:', error);
     }
+
+    if (sortPreference === 'loudness') {
+      analyzeSongLoudness(songId);
+    }
   };
 
-  const renderStars = (rating: number | null) => {
-    if (!rating) return null;
+  // Measure every version that hasn't been analysed yet so the loudness sort is complete
+  const analyzeSongLoudness = async (songId: number) => {
+    if (analyzingSongId !== null) return;
+
+    setAnalyzingSongId(songId);
+    try {
+      const analyzed = await dbOps.analyzeSongLoudness(songId);
+      if (analyzed > 0) setSongs(await dbOps.getSongs());
+    } catch (error) {
+      console.error('Failed to analyse song loudness:', error);
+    } finally {
+      setAnalyzingSongId(null);
+    }
+  };
+
+  // With several reviewers the stars show the rounded average, followed by the average and spread
+  const renderStars = (version: SongWithVersions['versions'][number]) => {
+    if (!version.rating) return null;
+    const stars = Math.round(version.rating);
+    const stats = reviewers.length > 0 ? getRatingStats(version.ratings) : null;
     return (
-      <div className="flex gap-0.5">
-        {Array.from({ length: 5 }).map((_, i) => (
-          <Star
-            key={i}
-            size={12}
-            className={i < rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-600'}
-          />
-        ))}
+      <div className="flex items-center gap-1">
+        <div className="flex gap-0.5">
+          {Array.from({ length: 5 }).map((_, i) => (
+            <Star
+              key={i}
+              size={12}
+              className={i < stars ? 'fill-yellow-400 text-yellow-400' : 'text-gray-600'}
+            />
+          ))}
+        </div>
+        {stats && stats.count > 1 && (
+          <span
+            className={`text-xs ${stats.spread >= 2 ? 'text-amber-400' : 'text-gray-500'}`}
+            title={describeRatings(version.ratings, reviewers)}
+          >
+            {formatRatingStats(stats)}
+          </span>
+        )}
       </div>
     );
   };
@@ -106,12 +251,20 @@ export default function SongBrowser({ onAddSongFolder }: SongBrowserProps) {
 
   return (
     <div className="h-full flex flex-col">
+      <SmartViewList />
+      <FilterBar matchCount={matchingVersions} totalCount={totalVersions} />
       <div className="flex-1 overflow-y-auto custom-scrollbar p-2">
-      {songs.map((song) => {
-        const isExpanded = expandedSongs.has(song.id);
+      {isFiltering && visibleSongs.length === 0 && (
+        <div className="px-2 py-4 text-sm text-gray-500 text-center">No versions match the filter</div>
+      )}
+      {visibleSongs.map((song) => {
+        const isExpanded = isFiltering || expandedSongs.has(song.id);
+        const access = songAccess[song.id!];
+        const isMissing = access === 'missing';
+        const isLocked = access === 'prompt' || access === 'denied';
 
         return (
-          <div key={song.id} className="mb-4">
+          <div key={song.id} className={`mb-4 ${isMissing || isLocked ? 'opacity-60' : ''}`}>
             {/* Song header */}
             <div
               className="flex items-center gap-2 px-2 py-2 hover:bg-gray-800 rounded cursor-pointer group border-b border-gray-700/50"
@@ -120,6 +273,30 @@ export default function SongBrowser({ onAddSongFolder }: SongBrowserProps) {
               {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
               <Music size={16} className="text-primary-500" />
               <span className="flex-1 font-medium truncate">{song.name}</span>
+              {isMissing && (
+                <>
+                  <span title="Song folder not found">
+                    <FolderX size={14} className="text-red-400" />
+                  </span>
+                  <button
+                    onClick={(e) => handleRelinkSong(song.id!, e)}
+                    className="p-1 text-red-300 hover:text-red-200"
+                    title="Re-link to a new folder"
+                  >
+                    <FolderSync size={14} />
+                  </button>
+                </>
+              )}
+              {isLocked && (
+                <button
+                  onClick={(e) => handleGrantSongAccess(song.id!, e)}
+                  className="p-1 text-blue-300 hover:text-blue-200"
+                  title={access === 'denied' ? 'Folder access was blocked' : 'Grant folder access'}
+                  disabled={access === 'denied'}
+                >
+                  <Lock size={14} />
+                </button>
+              )}
               <select
                 value={song.sortPreference || 'created'}
                 onChange={(e) => handleSortChange(song.id, e.target.value, e as any)}
@@ -130,8 +307,36 @@ export default function SongBrowser({ onAddSongFolder }: SongBrowserProps) {
                 <option value="name">Name</option>
                 <option value="rating">Rating</option>
                 <option value="notes">Notes</option>
+                <option value="version">Version #</option>
+                <option value="fileDate">File date</option>
+                <option value="loudness">Loudness</option>
               </select>
+              {analyzingSongId === song.id && (
+                <span title="Analysing loudness">
+                  <Loader2 size={14} className="animate-spin text-gray-500" />
+                </span>
+              )}
               <span className="text-xs text-gray-500">{song.versions.length}</span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setSettingsSong(song);
+                }}
+                className="opacity-0 group-hover:opacity-100 p-1 hover:text-gray-200"
+                title="Song settings"
+              >
+                <SlidersHorizontal size={14} />
+              </button>
+              <button
+                onClick={(e) => handleRescanSong(song.id, e)}
+                className={`p-1 hover:text-gray-200 ${
+                  rescanningSongId === song.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                }`}
+                title="Rescan folder for new or changed files"
+                disabled={rescanningSongId !== null}
+              >
+                <RefreshCw size={14} className={rescanningSongId === song.id ? 'animate-spin' : ''} />
+              </button>
               <button
                 onClick={(e) => handleDeleteSong(song.id, e)}
                 className="opacity-0 group-hover:opacity-100 p-1 hover:text-red-400"
@@ -140,6 +345,15 @@ export default function SongBrowser({ onAddSongFolder }: SongBrowserProps) {
               </button>
             </div>
 
+            {scanSummary && scanSummary.songId === song.id && (
+              <div className="flex items-center gap-2 px-2 py-1 text-xs text-gray-400">
+                <span className="flex-1 truncate">{scanSummary.message}</span>
+                <button onClick={() => setScanSummary(null)} className="p-0.5 hover:text-gray-200" title="Dismiss">
+                  <X size={12} />
+                </button>
+              </div>
+            )}
+
             {/* Version list */}
             {isExpanded && (
               <div className="ml-6 mt-2">
@@ -155,6 +369,16 @@ export default function SongBrowser({ onAddSongFolder }: SongBrowserProps) {
                           return (b.rating || 0) - (a.rating || 0);
                         case 'notes':
                           return (b.noteCount || 0) - (a.noteCount || 0);
+                        case 'version':
+                          // Unnumbered versions go last, ties fall back to the name
+                          return (a.versionNumber ?? Infinity) - (b.versionNumber ?? Infinity)
+                            || a.versionName.localeCompare(b.versionName, undefined, { numeric: true });
+                        case 'fileDate':
+                          // Dates in the name win over file timestamps
+                          return getVersionDate(a) - getVersionDate(b);
+                        case 'loudness':
+                          // Loudest first, unmeasured versions last
+                          return (getIntegratedLoudness(b) ?? -Infinity) - (getIntegratedLoudness(a) ?? -Infinity);
                         case 'created':
                         default:
                           return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
@@ -177,21 +401,32 @@ export default function SongBrowser({ onAddSongFolder }: SongBrowserProps) {
                             {version.noteCount}
                           </span>
                         )}
+                        {version.openIssueCount > 0 && (
+                          <span className="flex items-center gap-1 text-xs text-amber-400" title="Open issues">
+                            <CircleDot size={12} />
+                            {version.openIssueCount}
+                          </span>
+                        )}
                         {version.formats && version.formats.length > 1 && (
                           <span className="text-xs text-gray-500">
                             ({version.formats.length} formats)
                           </span>
                         )}
+                        {countMissingFormats(version.formats) > 0 && (
+                          <span title={`${countMissingFormats(version.formats)} format(s) missing on disk`}>
+                            <FileX size={14} className="text-red-400" />
+                          </span>
+                        )}
                         {version.hasDurationMismatch && (
                           <AlertTriangle
                             size={14}
                             className="text-yellow-500"
-                            title="Duration mismatch detected between formats"
+                            title={getFormatMismatches(version.formats, mismatchThresholds).join('\n') || 'Mismatch detected between formats'}
                           />
                         )}
                       </div>
                       <div className="flex items-center gap-2 mt-1">
-                        {renderStars(version.rating)}
+                        {renderStars(version)}
                         {version.tags.map((tag) => (
                           <span
                             key={tag.id}
@@ -203,8 +438,11 @@ export default function SongBrowser({ onAddSongFolder }: SongBrowserProps) {
                         ))}
                       </div>
                       {version.formats && version.formats[version.selectedFormatIndex]?.duration && (
-                        <div className="text-xs text-gray-500 mt-1">
-                          {formatDuration(version.formats[version.selectedFormatIndex].duration!)}
+                        <div className="text-xs text-gray-500 mt-1 flex gap-3">
+                          <span>{formatDuration(version.formats[version.selectedFormatIndex].duration!)}</span>
+                          {getIntegratedLoudness(version) != null && (
+                            <span title="Integrated loudness">{formatLoudness(getIntegratedLoudness(version), 'LUFS')}</span>
+                          )}
                         </div>
                       )}
                     </div>
@@ -217,6 +455,19 @@ export default function SongBrowser({ onAddSongFolder }: SongBrowserProps) {
       })}
       </div>
 
+      {settingsSong && (
+        <SongSettingsDialog
+          songName={settingsSong.name}
+          scanSettings={getScanSettings(settingsSong)}
+          groupingRules={getGroupingRules(settingsSong)}
+          formatPolicy={settingsSong.formatPolicy ?? null}
+          onSave={(scanSettings, groupingRules, formatPolicy) =>
+            handleSaveSongSettings(settingsSong.id!, scanSettings, groupingRules, formatPolicy)
+          }
+          onClose={() => setSettingsSong(null)}
+        />
+      )}
+
       {/* Sticky footer button */}
       <div className="border-t border-gray-700 p-2">
         <button
@@ -231,6 +482,10 @@ export default function SongBrowser({ onAddSongFolder }: SongBrowserProps) {
   );
 }
 
+function getIntegratedLoudness(version: VersionWithTags): number | null {
+  return version.formats[version.selectedFormatIndex]?.loudness?.integrated ?? null;
+}
+
 function formatDuration(seconds: number): string {
   const mins = Math.floor(seconds / 60);
   const secs = Math.floor(seconds % 60);
@@ -0,0 +1,232 @@
+import { useState } from 'react';
+import Modal from './Modal';
+import FormatPolicyEditor from './FormatPolicyEditor';
+import { ScanSettings, GroupingRules, FormatPolicy } from '@lib/db';
+import { DEFAULT_AUDIO_EXTENSIONS, parsePatternList } from '@lib/scanSettings';
+import { getVersionKey } from '@lib/formatUtils';
+
+/**
+ * Song settings dialog - edits how a song folder is scanned and grouped
+ * Covers recursion depth, include/exclude globs, extra audio extensions
+ * the rules that decide which files are formats of the same version,
+ * and which of those formats plays by default
+ */
+interface SongSettingsDialogProps {
+  songName: string;
+  scanSettings: ScanSettings;
+  groupingRules: GroupingRules;
+  formatPolicy: FormatPolicy | null; // null follows the global policy
+  onSave: (scanSettings: ScanSettings, groupingRules: GroupingRules, formatPolicy: FormatPolicy | null) => void;
+  onClose: () => void;
+}
+
+export default function SongSettingsDialog({
+  songName,
+  scanSettings,
+  groupingRules,
+  formatPolicy: initialFormatPolicy,
+  onSave,
+  onClose,
+}: SongSettingsDialogProps) {
+  const [maxDepth, setMaxDepth] = useState(scanSettings.maxDepth);
+  const [includeText, setIncludeText] = useState(scanSettings.includePatterns.join('\n'));
+  const [excludeText, setExcludeText] = useState(scanSettings.excludePatterns.join('\n'));
+  const [extensionsText, setExtensionsText] = useState(scanSettings.extraExtensions.join(', '));
+  const [suffixesText, setSuffixesText] = useState(groupingRules.stripSuffixes.join('\n'));
+  const [pattern, setPattern] = useState(groupingRules.pattern || '');
+  const [ignoreAudioSpecs, setIgnoreAudioSpecs] = useState(groupingRules.ignoreAudioSpecs);
+  const [previewName, setPreviewName] = useState('');
+  const [formatPolicy, setFormatPolicy] = useState(initialFormatPolicy);
+
+  const currentRules: GroupingRules = {
+    stripSuffixes: parsePatternList(suffixesText),
+    pattern: pattern.trim() || null,
+    ignoreAudioSpecs,
+  };
+
+  const isPatternValid = (() => {
+    try {
+      new RegExp(pattern);
+      return true;
+    } catch {
+      return false;
+    }
+  })();
+
+  const handleSave = () => {
+    if (!isPatternValid) return;
+
+    onSave(
+      {
+        maxDepth: Math.max(0, maxDepth),
+        includePatterns: parsePatternList(includeText),
+        excludePatterns: parsePatternList(excludeText),
+        extraExtensions: parsePatternList(extensionsText),
+      },
+      currentRules,
+      formatPolicy
+    );
+  };
+
+  return (
+    <Modal
+      title={`Song settings - ${songName}`}
+      onClose={onClose}
+      footer={
+        <>
+          <button onClick={onClose} className="btn btn-ghost btn-sm">
+            Cancel
+          </button>
+          <button onClick={handleSave} className="btn btn-primary btn-sm" disabled={!isPatternValid}>
+            Save &amp; Rescan
+          </button>
+        </>
+      }
+    >
+      <div className="space-y-4 text-sm">
+        <h3 className="text-sm font-semibold text-gray-300">Scanning</h3>
+
+        <div>
+          <label className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1 block">
+            Subfolder depth
+          </label>
+          <input
+            type="number"
+            min={0}
+            max={10}
+            value={maxDepth}
+            onChange={(e) => setMaxDepth(parseInt(e.target.value) || 0)}
+            className="bg-gray-700 rounded px-2 py-1 w-20 outline-none"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            0 scans only the top level, 2 reaches e.g. Mixes/2024-05/
+          </p>
+        </div>
+
+        <div>
+          <label className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1 block">
+            Include patterns
+          </label>
+          <textarea
+            value={includeText}
+            onChange={(e) => setIncludeText(e.target.value)}
+            rows={3}
+            placeholder={'Bounces/**\nMixes/**'}
+            className="bg-gray-700 rounded px-2 py-1 w-full font-mono text-xs outline-none"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            One glob per line. Leave empty to include every audio file.
+          </p>
+        </div>
+
+        <div>
+          <label className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1 block">
+            Exclude patterns
+          </label>
+          <textarea
+            value={excludeText}
+            onChange={(e) => setExcludeText(e.target.value)}
+            rows={3}
+            placeholder={'*_stem*\nAudio Files/'}
+            className="bg-gray-700 rounded px-2 py-1 w-full font-mono text-xs outline-none"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            A trailing / matches folders only. Patterns without / match names at any depth.
+          </p>
+        </div>
+
+        <div>
+          <label className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1 block">
+            Extra extensions
+          </label>
+          <input
+            type="text"
+            value={extensionsText}
+            onChange={(e) => setExtensionsText(e.target.value)}
+            placeholder=".aif, .aiff, .opus"
+            className="bg-gray-700 rounded px-2 py-1 w-full outline-none"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Always scanned: {DEFAULT_AUDIO_EXTENSIONS.join(' ')}
+          </p>
+        </div>
+
+        <h3 className="text-sm font-semibold text-gray-300 pt-2 border-t border-gray-700">Version grouping</h3>
+
+        <div>
+          <label className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1 block">
+            Strip suffixes
+          </label>
+          <textarea
+            value={suffixesText}
+            onChange={(e) => setSuffixesText(e.target.value)}
+            rows={2}
+            placeholder={'(master)\n_*bit'}
+            className="bg-gray-700 rounded px-2 py-1 w-full font-mono text-xs outline-none"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            One suffix per line, * matches anything. Removed before comparing names.
+          </p>
+        </div>
+
+        <div>
+          <label className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1 block">
+            Name pattern
+          </label>
+          <input
+            type="text"
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+            placeholder="^(?<version>.+?) - \d{6}$"
+            className={`bg-gray-700 rounded px-2 py-1 w-full font-mono text-xs outline-none ${
+              isPatternValid ? '' : 'ring-1 ring-red-500'
+            }`}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Optional regex. The "version" named group, or the first capture group, becomes the version name.
+          </p>
+        </div>
+
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={ignoreAudioSpecs}
+            onChange={(e) => setIgnoreAudioSpecs(e.target.checked)}
+          />
+          Ignore bit-depth and sample-rate tokens (24bit, 48kHz, 32f...)
+        </label>
+
+        <div>
+          <label className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1 block">
+            Try a file name
+          </label>
+          <input
+            type="text"
+            value={previewName}
+            onChange={(e) => setPreviewName(e.target.value)}
+            placeholder="song_v2_24bit.flac"
+            className="bg-gray-700 rounded px-2 py-1 w-full outline-none"
+          />
+          {previewName && isPatternValid && (
+            <p className="text-xs text-gray-400 mt-1">
+              Groups as: <span className="font-mono text-gray-200">{getVersionKey(previewName, currentRules)}</span>
+            </p>
+          )}
+        </div>
+
+        <h3 className="text-sm font-semibold text-gray-300 pt-2 border-t border-gray-700">Default format</h3>
+
+        <div>
+          <FormatPolicyEditor
+            policy={formatPolicy}
+            inheritLabel="Use the global setting"
+            onChange={setFormatPolicy}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Formats you pick by hand stay selected.
+          </p>
+        </div>
+      </div>
+    </Modal>
+  );
+}
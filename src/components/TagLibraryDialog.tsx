@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import Modal from './Modal';
+import { useAppStore } from '../store/appStore';
+import { useDB } from '@hooks/useDB';
+import { Tag } from '@lib/db';
+import { getTagGroups, groupTags } from '@lib/tagLibrary';
+import { replaceFilterTag } from '@lib/versionFilter';
+
+/**
+ * Tag library dialog - every tag in the library with how many versions use it
+ * Rename, recolor, group, merge or delete tags; changes apply right away
+ * Renaming onto an existing name merges the two tags after a confirmation
+ */
+interface TagLibraryDialogProps {
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export default function TagLibraryDialog({ onClose, onChanged }: TagLibraryDialogProps) {
+  const dbOps = useDB();
+  const { tags, setTags, setSmartViews, versionFilter, activeSmartViewId, setVersionFilter } = useAppStore();
+  const [usage, setUsage] = useState<Map<number, number>>(new Map());
+  const [names, setNames] = useState<Record<number, string>>({});
+  const [groups, setGroups] = useState<Record<number, string>>({});
+  const [colors, setColors] = useState<Record<number, string>>({});
+
+  useEffect(() => {
+    dbOps.getTagUsage()
+      .then(setUsage)
+      .catch((error) => console.error('Failed to count tag usage:', error));
+  }, []);
+
+  const knownGroups = getTagGroups(tags);
+
+  const reload = async () => {
+    const [loadedTags, loadedUsage, loadedViews] = await Promise.all([
+      dbOps.getTags(),
+      dbOps.getTagUsage(),
+      dbOps.getSmartViews(),
+    ]);
+    setTags(loadedTags);
+    setUsage(loadedUsage);
+    setSmartViews(loadedViews);
+    onChanged();
+  };
+
+  // Keep the live filter pointing at tags that still exist
+  const followInFilter = (fromId: number, toId: number | null) => {
+    setVersionFilter(replaceFilterTag(versionFilter, fromId, toId), activeSmartViewId);
+  };
+
+  const handleRename = async (tag: Tag) => {
+    const name = names[tag.id!]?.trim();
+    setNames(({ [tag.id!]: _, ...rest }) => rest);
+    if (!name || name === tag.name) return;
+
+    try {
+      const existing = await dbOps.findTagByName(name, tag.id);
+      if (existing && !confirm(`A tag named "${existing.name}" already exists. Merge "${tag.name}" into it?`)) return;
+
+      const survivingId = await dbOps.renameTag(tag.id!, name);
+      if (survivingId !== tag.id) followInFilter(tag.id!, survivingId);
+      await reload();
+    } catch (error) {
+      console.error('Failed to rename tag:', error);
+    }
+  };
+
+  const handleStyleChange = async (tag: Tag, color: string, group: string | null) => {
+    try {
+      await dbOps.updateTag(tag.id!, color, group);
+      await reload();
+    } catch (error) {
+      console.error('Failed to update tag:', error);
+    }
+  };
+
+  // The picker fires on every drag step, save once it's closed
+  const handleColorCommit = (tag: Tag) => {
+    const color = colors[tag.id!];
+    setColors(({ [tag.id!]: _, ...rest }) => rest);
+    if (color === undefined || color === tag.color) return;
+    handleStyleChange(tag, color, tag.group ?? null);
+  };
+
+  const handleGroupCommit = (tag: Tag) => {
+    const group = groups[tag.id!];
+    setGroups(({ [tag.id!]: _, ...rest }) => rest);
+    if (group === undefined || group.trim() === (tag.group || '')) return;
+    handleStyleChange(tag, tag.color, group);
+  };
+
+  const handleMerge = async (source: Tag, targetId: number) => {
+    const target = tags.find((t) => t.id === targetId);
+    if (!target || !confirm(`Merge "${source.name}" into "${target.name}"? Every version tagged "${source.name}" gets "${target.name}".`)) return;
+
+    try {
+      await dbOps.mergeTags(source.id!, targetId);
+      followInFilter(source.id!, targetId);
+      await reload();
+    } catch (error) {
+      console.error('Failed to merge tags:', error);
+    }
+  };
+
+  const handleDelete = async (tag: Tag) => {
+    const count = usage.get(tag.id!) || 0;
+    const message = count > 0
+      ? `Delete "${tag.name}"? It will be removed from ${count} version(s).`
+      : `Delete "${tag.name}"?`;
+    if (!confirm(message)) return;
+
+    try {
+      await dbOps.deleteTag(tag.id!);
+      followInFilter(tag.id!, null);
+      await reload();
+    } catch (error) {
+      console.error('Failed to delete tag:', error);
+    }
+  };
+
+  return (
+    <Modal title="Tags" onClose={onClose} width="max-w-2xl">
+      {tags.length === 0 ? (
+        <p className="text-sm text-gray-500">No tags yet. Add them from a version's tag list.</p>
+      ) : (
+        <div className="space-y-4 text-sm">
+          {groupTags(tags).map(([group, groupedTags]) => (
+            <div key={group ?? ''}>
+              <div className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1">
+                {group ?? 'Ungrouped'}
+              </div>
+              {groupedTags.map((tag) => (
+                <div key={tag.id} className="flex items-center gap-2 py-1">
+                  <input
+                    type="color"
+                    value={colors[tag.id!] ?? tag.color}
+                    onChange={(e) => setColors({ ...colors, [tag.id!]: e.target.value })}
+                    onBlur={() => handleColorCommit(tag)}
+                    className="w-6 h-6 cursor-pointer shrink-0"
+                    title="Color"
+                  />
+                  <input
+                    type="text"
+                    value={names[tag.id!] ?? tag.name}
+                    onChange={(e) => setNames({ ...names, [tag.id!]: e.target.value })}
+                    onBlur={() => handleRename(tag)}
+                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                    className="bg-gray-700 rounded px-2 py-1 flex-1 min-w-0 outline-none"
+                    style={{ color: colors[tag.id!] ?? tag.color }}
+                  />
+                  <input
+                    type="text"
+                    value={groups[tag.id!] ?? tag.group ?? ''}
+                    onChange={(e) => setGroups({ ...groups, [tag.id!]: e.target.value })}
+                    onBlur={() => handleGroupCommit(tag)}
+                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                    list="tag-groups"
+                    placeholder="Group"
+                    className="bg-gray-700 rounded px-2 py-1 w-28 text-xs outline-none"
+                  />
+                  <span className="text-xs text-gray-500 w-16 text-right" title="Versions with this tag">
+                    {usage.get(tag.id!) || 0} version{usage.get(tag.id!) === 1 ? '' : 's'}
+                  </span>
+                  <select
+                    value=""
+                    onChange={(e) => handleMerge(tag, parseInt(e.target.value))}
+                    className="select-styled text-xs pl-2 py-1 w-28"
+                    disabled={tags.length < 2}
+                  >
+                    <option value="" disabled>
+                      Merge into…
+                    </option>
+                    {tags
+                      .filter((t) => t.id !== tag.id)
+                      .map((t) => (
+                        <option key={t.id} value={t.id}>
+                          {t.name}
+                        </option>
+                      ))}
+                  </select>
+                  <button
+                    onClick={() => handleDelete(tag)}
+                    className="p-1 text-gray-400 hover:text-red-400"
+                    title="Delete tag"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          ))}
+          <datalist id="tag-groups">
+            {knownGroups.map((group) => (
+              <option key={group} value={group} />
+            ))}
+          </datalist>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -3,6 +3,7 @@ import { Plus, X } from 'lucide-react';
 import { useAppStore } from '../store/appStore';
 import { useDB } from '@hooks/useDB';
 import { Tag } from '@types';
+import { groupTags } from '@lib/tagLibrary';
 
 /**
  * Tag manager component - displays and manages tags for a version
@@ -125,10 +126,14 @@ export default function TagManager({ versionId, currentTags }: TagManagerProps)
             <option value="" disabled>
               Add tag...
             </option>
-            {availableTags.map((tag) => (
-              <option key={tag.id} value={tag.id}>
-                {tag.name}
-              </option>
+            {groupTags(availableTags).map(([group, groupedTags]) => (
+              <optgroup key={group ?? ''} label={group ?? 'Ungrouped'}>
+                {groupedTags.map((tag) => (
+                  <option key={tag.id} value={tag.id}>
+                    {tag.name}
+                  </option>
+                ))}
+              </optgroup>
             ))}
             <option value="new">+ Create new tag</option>
           </select>
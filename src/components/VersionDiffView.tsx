@@ -0,0 +1,326 @@
+import { useEffect, useRef, useState } from 'react';
+import { ArrowLeftRight, Gauge, Loader2 } from 'lucide-react';
+import Modal from './Modal';
+import { useAppStore } from '../store/appStore';
+import { useDB } from '@hooks/useDB';
+import { Note } from '@lib/db';
+import { AudioDiff, ValueChange, VersionDiff } from '@lib/versionDiff';
+import { ENVELOPE_RATE } from '@lib/mismatchReport';
+import { findPreviousVersion } from '@lib/versionFilter';
+import { formatFormatLabel, formatLoudness } from '@lib/formatUtils';
+import { formatTimeRange, formatTimestamp } from '@lib/timestamps';
+import { stripHtml } from '@lib/search';
+
+/**
+ * Version diff view - what changed between two versions of the selected song
+ * Rating, tags, notes, format and loudness side by side, with the loudness curves of
+ * both overlaid (not waveforms) and the stretches where the audio diverges highlighted
+ */
+interface VersionDiffViewProps {
+  onClose: () => void;
+}
+
+const ENVELOPE_FLOOR = -60; // LUFS at the bottom of the overlay
+
+function formatDelta(change: ValueChange, unit: string, digits = 1): string {
+  if (change.delta === null) return '';
+  if (change.delta === 0) return 'same';
+  return `${change.delta > 0 ? '+' : ''}${change.delta.toFixed(digits)} ${unit}`;
+}
+
+// Reviewers' averages aren't whole stars, they're shown as numbers
+function formatRating(rating: number | null): string {
+  if (rating === null) return 'Unrated';
+  if (!Number.isInteger(rating)) return `${rating.toFixed(1)} ★ average`;
+  return '★'.repeat(rating) + '☆'.repeat(5 - rating);
+}
+
+function isWholeRating({ from, to }: ValueChange): boolean {
+  return (from === null || Number.isInteger(from)) && (to === null || Number.isInteger(to));
+}
+
+export default function VersionDiffView({ onClose }: VersionDiffViewProps) {
+  const dbOps = useDB();
+  const { selectedSong, selectedVersion, requestSeek, setSongs } = useAppStore();
+  const [fromId, setFromId] = useState<number | null>(() =>
+    selectedSong && selectedVersion ? findPreviousVersion(selectedSong.versions, selectedVersion)?.id ?? null : null
+  );
+  const [toId, setToId] = useState<number | null>(selectedVersion?.id ?? null);
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+
+  // Picking or swapping versions while a diff loads cancels it, only the latest request lands
+  const loadDiff = async (analyse: boolean) => {
+    const request = ++latestRequest.current;
+    const isCancelled = () => request !== latestRequest.current;
+    if (fromId === null || toId === null || fromId === toId) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const loaded = await dbOps.getVersionDiff(fromId, toId, analyse);
+      if (isCancelled()) return;
+      setDiff(loaded);
+      // Analysis fills in loudness the song browser and version header show too
+      if (analyse) setSongs(await dbOps.getSongs());
+    } catch (err) {
+      if (isCancelled()) return;
+      console.error('Failed to compare versions:', err);
+      setError(analyse ? 'Analysis failed, one of the files may not be decodable.' : 'Could not load these versions.');
+    } finally {
+      if (!isCancelled()) setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadDiff(false);
+  }, [fromId, toId]);
+
+  if (!selectedSong || !selectedVersion) return null;
+
+  const renderVersionSelect = (value: number | null, onChange: (id: number) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(parseInt(e.target.value))}
+      className="select-styled text-sm pl-2 py-1 flex-1 min-w-0"
+    >
+      {selectedSong.versions.map((v) => (
+        <option key={v.id} value={v.id}>
+          {v.versionName}
+        </option>
+      ))}
+    </select>
+  );
+
+  const renderDetails = ({ from, to, rating, format }: VersionDiff) => {
+    const rows: [string, string, string, string][] = [
+      ['Rating', formatRating(rating.from), formatRating(rating.to), formatDelta(rating, '★', isWholeRating(rating) ? 0 : 1)],
+      [
+        'Format',
+        format.from ? formatFormatLabel(format.from) : '-',
+        format.to ? formatFormatLabel(format.to) : '-',
+        format.specChanged ? 'changed' : '',
+      ],
+      [
+        'Duration',
+        format.duration.from !== null ? formatTimestamp(format.duration.from, true) : '-',
+        format.duration.to !== null ? formatTimestamp(format.duration.to, true) : '-',
+        formatDelta(format.duration, 's'),
+      ],
+      ['Loudness', formatLoudness(format.integrated.from, 'LUFS'), formatLoudness(format.integrated.to, 'LUFS'), formatDelta(format.integrated, 'LU')],
+      ['True peak', formatLoudness(format.truePeak.from, 'dBTP'), formatLoudness(format.truePeak.to, 'dBTP'), formatDelta(format.truePeak, 'dB')],
+      ['Range', formatLoudness(format.range.from, 'LU'), formatLoudness(format.range.to, 'LU'), formatDelta(format.range, 'LU')],
+    ];
+
+    return (
+      <table className="w-full text-xs table-fixed">
+        <thead>
+          <tr className="text-gray-500 text-left">
+            <th className="font-normal pb-1 w-20"></th>
+            <th className="font-normal pb-1 truncate">{from.versionName}</th>
+            <th className="font-normal pb-1 truncate">{to.versionName}</th>
+            <th className="font-normal pb-1 w-20 text-right">Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(([label, before, after, change]) => (
+            <tr key={label} className="border-t border-gray-700">
+              <td className="py-1 text-gray-400">{label}</td>
+              <td className="py-1 pr-2 text-gray-300">{before}</td>
+              <td className="py-1 pr-2 text-gray-300">{after}</td>
+              <td className={`py-1 text-right ${change && change !== 'same' ? 'text-amber-400' : 'text-gray-500'}`}>
+                {change}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  };
+
+  const renderTagChanges = ({ tagsAdded, tagsRemoved }: VersionDiff) =>
+    tagsAdded.length === 0 && tagsRemoved.length === 0 ? (
+      <p className="text-xs text-gray-500">No tag changes.</p>
+    ) : (
+      <div className="flex flex-wrap gap-1">
+        {tagsAdded.map((tag) => (
+          <span
+            key={tag.id}
+            className="inline-flex items-center px-2 py-0.5 rounded text-xs"
+            style={{ backgroundColor: tag.color + '30', color: tag.color }}
+          >
+            + {tag.name}
+          </span>
+        ))}
+        {tagsRemoved.map((tag) => (
+          <span
+            key={tag.id}
+            className="inline-flex items-center px-2 py-0.5 rounded text-xs line-through opacity-60"
+            style={{ backgroundColor: tag.color + '20', color: tag.color }}
+          >
+            − {tag.name}
+          </span>
+        ))}
+      </div>
+    );
+
+  const renderNoteChanges = (diff: VersionDiff) => {
+    const groups = ([
+      ['Resolved', diff.notesResolved, 'text-green-400'],
+      ['Still open', diff.notesOpen, 'text-amber-400'],
+      ['New', diff.notesAdded, 'text-blue-400'],
+    ] as [string, Note[], string][]).filter(([, notes]) => notes.length > 0);
+
+    if (groups.length === 0) {
+      return <p className="text-xs text-gray-500">Neither version has notes.</p>;
+    }
+
+    return (
+      <div className="space-y-2">
+        {groups.map(([label, notes, color]) => (
+          <div key={label}>
+            <div className={`text-xs mb-1 ${color}`}>{label} ({notes.length})</div>
+            {notes.map((note) => (
+              <div key={note.id} className="flex gap-2 text-xs text-gray-300 pl-2">
+                {note.startTime !== null && (
+                  <span className="text-gray-500 shrink-0">{formatTimeRange(note.startTime, note.endTime)}</span>
+                )}
+                <span className="line-clamp-1">{stripHtml(note.content)}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  // Loudness of both versions on the second one's timeline, divergent stretches shaded
+  // Regions jump the player there when the second version is the one open
+  const renderAudioChanges = ({ from, to }: VersionDiff, audio: AudioDiff) => {
+    const y = (lufs: number) => Math.min(100, Math.max(0, (lufs / ENVELOPE_FLOOR) * 100));
+    const points = (envelope: (number | null)[]) =>
+      envelope.map((value, i) => (value === null ? null : `${i},${y(value)}`)).filter(Boolean).join(' ');
+    const canSeek = to.id === selectedVersion.id;
+
+    return (
+      <div className="space-y-2">
+        <p className="text-xs text-gray-400">
+          {audio.correlation === null
+            ? "The audio doesn't line up, so it's compared as it is."
+            : audio.offset === 0
+              ? `Same timing (correlation ${audio.correlation}).`
+              : `The same material plays ${Math.abs(audio.offset).toFixed(1)} s ${audio.offset > 0 ? 'later' : 'earlier'} in ${to.versionName} (correlation ${audio.correlation}).`}
+        </p>
+        <svg
+          viewBox={`0 0 ${audio.toEnvelope.length} 100`}
+          preserveAspectRatio="none"
+          className="w-full h-24 bg-gray-900 rounded"
+        >
+          {audio.regions.map((region) => (
+            <rect
+              key={region.start}
+              x={region.start * ENVELOPE_RATE}
+              width={(region.end - region.start) * ENVELOPE_RATE}
+              y={0}
+              height={100}
+              className="fill-red-500/20"
+            />
+          ))}
+          <polyline points={points(audio.fromEnvelope)} fill="none" className="stroke-gray-500" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+          <polyline points={points(audio.toEnvelope)} fill="none" className="stroke-blue-400" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+        </svg>
+        <div className="flex items-center gap-3 text-xs text-gray-500">
+          <span className="flex items-center gap-1 min-w-0"><span className="w-3 h-0.5 bg-gray-500 shrink-0" /><span className="truncate">{from.versionName}</span></span>
+          <span className="flex items-center gap-1 min-w-0"><span className="w-3 h-0.5 bg-blue-400 shrink-0" /><span className="truncate">{to.versionName}</span></span>
+          <span className="flex items-center gap-1 shrink-0"><span className="w-3 h-2 bg-red-500/20" />Differs</span>
+        </div>
+        {audio.regions.length === 0 ? (
+          <p className="text-xs text-gray-500">No stretch differs by more than a few LU.</p>
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            {audio.regions.map((region) => (
+              <button
+                key={region.start}
+                onClick={() => requestSeek(selectedVersion.id!, region.start)}
+                disabled={!canSeek}
+                className="px-1.5 py-0.5 rounded bg-red-500/20 text-xs text-red-300 enabled:hover:bg-red-500/30"
+                title={canSeek ? 'Jump there in the player' : undefined}
+              >
+                {formatTimeRange(region.start, region.end)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Modal title={`What changed - ${selectedSong.name}`} onClose={onClose} width="max-w-3xl">
+      <div className="space-y-5 text-sm">
+        {selectedSong.versions.length < 2 ? (
+          <p className="text-gray-500">This song needs at least two versions to compare.</p>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              {renderVersionSelect(fromId, setFromId)}
+              <button
+                onClick={() => {
+                  setFromId(toId);
+                  setToId(fromId);
+                }}
+                className="p-1 text-gray-400 hover:text-gray-200"
+                title="Swap"
+              >
+                <ArrowLeftRight size={16} />
+              </button>
+              {renderVersionSelect(toId, setToId)}
+            </div>
+
+            {error && <p className="text-red-400">{error}</p>}
+            {fromId === toId ? (
+              <p className="text-gray-500">Pick two different versions.</p>
+            ) : isLoading && !diff ? (
+              <p className="flex items-center gap-2 text-gray-500">
+                <Loader2 size={14} className="animate-spin" />
+                Loading...
+              </p>
+            ) : diff && (
+              <>
+                {renderDetails(diff)}
+
+                <div>
+                  <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">Tags</h3>
+                  {renderTagChanges(diff)}
+                </div>
+
+                <div>
+                  <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">Notes</h3>
+                  {renderNoteChanges(diff)}
+                </div>
+
+                <div>
+                  <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">Loudness overlay</h3>
+                  {diff.audio ? (
+                    renderAudioChanges(diff, diff.audio)
+                  ) : (
+                    <button
+                      onClick={() => loadDiff(true)}
+                      disabled={isLoading}
+                      className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-300"
+                    >
+                      {isLoading ? <Loader2 size={14} className="animate-spin" /> : <Gauge size={14} />}
+                      Analyse both versions to overlay their loudness
+                    </button>
+                  )}
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
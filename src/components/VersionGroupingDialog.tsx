@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { Merge, Split } from 'lucide-react';
+import Modal from './Modal';
+import { useAppStore } from '../store/appStore';
+import { useDB } from '@hooks/useDB';
+import { useSelectVersion } from '@hooks/useSelectVersion';
+import { formatFormatLabel } from '@lib/formatUtils';
+
+/**
+ * Version grouping dialog - manually merge the selected version into another
+ * version of the same song, or split one of its formats out into its own version
+ */
+interface VersionGroupingDialogProps {
+  onClose: () => void;
+}
+
+export default function VersionGroupingDialog({ onClose }: VersionGroupingDialogProps) {
+  const dbOps = useDB();
+  const selectVersion = useSelectVersion();
+  const { selectedSong, selectedVersion, notes, images, setSongs } = useAppStore();
+  const [mergeTargetId, setMergeTargetId] = useState<number | null>(null);
+  const [splitIndex, setSplitIndex] = useState<number | null>(null);
+  const [splitNoteIds, setSplitNoteIds] = useState<Set<number>>(new Set());
+  const [splitImageIds, setSplitImageIds] = useState<Set<number>>(new Set());
+  const [isWorking, setIsWorking] = useState(false);
+
+  if (!selectedSong || !selectedVersion) return null;
+
+  const otherVersions = selectedSong.versions.filter((v) => v.id !== selectedVersion.id);
+  // Replies move with their note
+  const topLevelNotes = notes.filter((n) => !n.parentId);
+
+  // Reload songs and open the version that survived the operation
+  const reloadAndSelect = async (versionId: number) => {
+    const updatedSongs = await dbOps.getSongs();
+    setSongs(updatedSongs);
+
+    const song = updatedSongs.find((s) => s.id === selectedSong.id);
+    const version = song?.versions.find((v) => v.id === versionId);
+    if (song && version) {
+      await selectVersion(song, version);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (mergeTargetId === null) return;
+
+    const target = otherVersions.find((v) => v.id === mergeTargetId);
+    if (!confirm(`Merge "${selectedVersion.versionName}" into "${target?.versionName}"? Its notes, tags and images will move across.`)) {
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      await dbOps.mergeVersions(selectedVersion.id!, mergeTargetId);
+      await reloadAndSelect(mergeTargetId);
+      onClose();
+    } catch (error) {
+      console.error('Failed to merge versions:', error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSplit = async () => {
+    if (splitIndex === null) return;
+
+    setIsWorking(true);
+    try {
+      await dbOps.splitFormat(selectedVersion.id!, splitIndex, {
+        noteIds: Array.from(splitNoteIds),
+        imageIds: Array.from(splitImageIds),
+      });
+      await reloadAndSelect(selectedVersion.id!);
+      onClose();
+    } catch (error) {
+      console.error('Failed to split format:', error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const toggleId = (ids: Set<number>, id: number) => {
+    const next = new Set(ids);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    return next;
+  };
+
+  return (
+    <Modal title={`Regroup - ${selectedVersion.versionName}`} onClose={onClose}>
+      <div className="space-y-6 text-sm">
+        {/* Merge */}
+        <div>
+          <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">
+            Merge into another version
+          </h3>
+          {otherVersions.length === 0 ? (
+            <p className="text-gray-500">This song has no other versions.</p>
+          ) : (
+            <div className="flex items-center gap-2">
+              <select
+                value={mergeTargetId ?? ''}
+                onChange={(e) => setMergeTargetId(e.target.value ? parseInt(e.target.value) : null)}
+                className="select-styled text-sm pl-2 py-1 flex-1"
+              >
+                <option value="">Choose a version...</option>
+                {otherVersions.map((v) => (
+                  <option key={v.id} value={v.id}>
+                    {v.versionName}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleMerge}
+                disabled={mergeTargetId === null || isWorking}
+                className="btn btn-primary btn-sm flex items-center gap-1"
+              >
+                <Merge size={14} />
+                Merge
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Split */}
+        <div>
+          <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">
+            Split a format out
+          </h3>
+          {selectedVersion.formats.length < 2 ? (
+            <p className="text-gray-500">Only versions with more than one format can be split.</p>
+          ) : (
+            <div className="space-y-2">
+              {selectedVersion.formats.map((format, index) => (
+                <label key={format.fileHandle} className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="split-format"
+                    checked={splitIndex === index}
+                    onChange={() => setSplitIndex(index)}
+                  />
+                  <span className="truncate" title={format.relativePath || format.fileName}>
+                    {format.fileName}
+                  </span>
+                  <span className="text-xs text-gray-500">{formatFormatLabel(format)}</span>
+                </label>
+              ))}
+
+              {splitIndex !== null && (topLevelNotes.length > 0 || images.length > 0) && (
+                <div className="mt-3 pl-3 border-l border-gray-700">
+                  <p className="text-xs text-gray-400 mb-2">
+                    Tags and ratings are copied. Choose which notes and images move with this format:
+                  </p>
+                  {topLevelNotes.map((note) => (
+                    <label key={note.id} className="flex items-start gap-2 mb-1">
+                      <input
+                        type="checkbox"
+                        className="mt-1"
+                        checked={splitNoteIds.has(note.id!)}
+                        onChange={() => setSplitNoteIds(toggleId(splitNoteIds, note.id!))}
+                      />
+                      <span className="text-gray-300 line-clamp-2">
+                        {note.content.replace(/<[^>]+>/g, ' ')}
+                      </span>
+                    </label>
+                  ))}
+                  {images.map((image) => (
+                    <label key={image.id} className="flex items-center gap-2 mb-1">
+                      <input
+                        type="checkbox"
+                        checked={splitImageIds.has(image.id!)}
+                        onChange={() => setSplitImageIds(toggleId(splitImageIds, image.id!))}
+                      />
+                      <span className="text-gray-300 truncate">{image.caption || image.fileName}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              <button
+                onClick={handleSplit}
+                disabled={splitIndex === null || isWorking}
+                className="btn btn-primary btn-sm flex items-center gap-1 mt-2"
+              >
+                <Split size={14} />
+                Split into new version
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -1,4 +1,4 @@
-import { useRef } from 'react';
+import { useRef, useState } from 'react';
 import { useAppStore } from '../store/appStore';
 import { useDB } from '@hooks/useDB';
 import AudioPlayer from './AudioPlayer';
@@ -6,22 +6,44 @@ import RichTextEditor, { RichTextEditorHandle } from './RichTextEditor';
 import TagManager from './TagManager';
 import RatingSelector from './RatingSelector';
 import FormatSelector from './FormatSelector';
-import { FileAudio, Calendar } from 'lucide-react';
-import { formatFileSize } from '@lib/formatUtils';
+import VersionGroupingDialog from './VersionGroupingDialog';
+import ImageGallery from './ImageGallery';
+import CompareView from './CompareView';
+import LoudnessPanel from './LoudnessPanel';
+import FormatMismatchReport from './FormatMismatchReport';
+import CarryForwardDialog from './CarryForwardDialog';
+import VersionDiffView from './VersionDiffView';
+import { FileAudio, Calendar, Combine, GitCompare, Forward, History } from 'lucide-react';
+import { formatFileSize, formatAudioSpec } from '@lib/formatUtils';
 
 /**
  * Version view component - displays details for a selected version
- * Includes audio player, waveform, notes, tags, and ratings
+ * Includes audio player, waveform, notes, images, tags, and ratings
  */
 export default function VersionView() {
-  const { selectedVersion, selectedSong, notes, updateVersionFormat, playingVersionId } = useAppStore();
+  const { selectedVersion, selectedSong, notes, images, updateVersionFormat, playingVersionId } = useAppStore();
   const dbOps = useDB();
   const editorRef = useRef<RichTextEditorHandle>(null);
+  const [showGrouping, setShowGrouping] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const [showCarryForward, setShowCarryForward] = useState(false);
+  const [showDiff, setShowDiff] = useState(false);
 
   if (!selectedVersion || !selectedSong) return null;
 
   const selectedFormat = selectedVersion.formats?.[selectedVersion.selectedFormatIndex];
   const isPlayingDifferentVersion = playingVersionId && playingVersionId !== selectedVersion.id;
+  const audioSpec = selectedFormat ? formatAudioSpec(selectedFormat) : '';
+
+  // Tags embedded in the selected file
+  const embeddedTags = ([
+    ['Title', selectedFormat?.tags?.title],
+    ['Artist', selectedFormat?.tags?.artist],
+    ['BPM', selectedFormat?.tags?.bpm],
+    ['Key', selectedFormat?.tags?.key],
+    ['ISRC', selectedFormat?.tags?.isrc],
+    ['Comment', selectedFormat?.tags?.comment],
+  ] as [string, string | number | undefined][]).filter(([, value]) => value !== undefined);
 
   const handleFormatChange = async (formatIndex: number) => {
     try {
@@ -32,6 +54,15 @@ export default function VersionView() {
     }
   };
 
+  const handleResetFormat = async () => {
+    try {
+      const formatIndex = await dbOps.resetFormatSelection(selectedVersion.id!);
+      updateVersionFormat(selectedVersion.id!, formatIndex, false);
+    } catch (error) {
+      console.error('Failed to reset format:', error);
+    }
+  };
+
   const formatDate = (dateStr: string) => {
     return new Date(dateStr).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -62,26 +93,92 @@ export default function VersionView() {
                   versionId={selectedVersion.id!}
                   formats={selectedVersion.formats}
                   selectedIndex={selectedVersion.selectedFormatIndex}
+                  isManual={selectedVersion.formatSelectionManual}
                   onFormatChange={handleFormatChange}
+                  onResetSelection={handleResetFormat}
                 />
               ) : (
                 <>
                   {selectedFormat?.format && (
                     <div className="uppercase">{selectedFormat.format}</div>
                   )}
+                  {audioSpec && <div>{audioSpec}</div>}
                   {selectedFormat?.bitrate && (
                     <div>{selectedFormat.bitrate} kbps</div>
                   )}
                   {selectedFormat?.fileSize && (
                     <div>{formatFileSize(selectedFormat.fileSize)}</div>
                   )}
+                  {selectedFormat?.relativePath && selectedFormat.relativePath !== selectedFormat.fileName && (
+                    <div className="truncate" title={selectedFormat.relativePath}>{selectedFormat.relativePath}</div>
+                  )}
+                  {selectedFormat?.missing && (
+                    <div className="text-red-400">Missing</div>
+                  )}
                 </>
               )}
             </div>
+            {/* Codec and embedded tags of the selected file */}
+            {(selectedFormat?.codec || embeddedTags.length > 0) && (
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 text-xs text-gray-500">
+                {selectedFormat?.codec && (
+                  <div>
+                    {selectedFormat.codec}
+                    {selectedFormat.lossless != null && ` (${selectedFormat.lossless ? 'lossless' : 'lossy'})`}
+                  </div>
+                )}
+                {embeddedTags.map(([label, value]) => (
+                  <div key={label} className="truncate max-w-xs" title={String(value)}>
+                    <span className="text-gray-600">{label}</span> {value}
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
-          <RatingSelector versionId={selectedVersion.id!} currentRating={selectedVersion.rating} />
+          {selectedSong.versions.length > 1 && (
+            <>
+              <button
+                onClick={() => setShowDiff(true)}
+                className="p-1 mt-0.5 text-gray-400 hover:text-gray-200"
+                title="What changed since another version"
+              >
+                <History size={18} />
+              </button>
+              <button
+                onClick={() => setShowCompare(true)}
+                className="p-1 mt-0.5 text-gray-400 hover:text-gray-200"
+                title="Compare with other versions"
+              >
+                <GitCompare size={18} />
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => setShowGrouping(true)}
+            className="p-1 mt-0.5 text-gray-400 hover:text-gray-200"
+            title="Merge or split this version"
+          >
+            <Combine size={18} />
+          </button>
+          <RatingSelector
+            versionId={selectedVersion.id!}
+            currentRating={selectedVersion.rating}
+            ratings={selectedSong.versions.find((v) => v.id === selectedVersion.id)?.ratings ?? []}
+          />
+        </div>
+
+        {/* Loudness */}
+        <div className="mt-3">
+          <LoudnessPanel />
         </div>
 
+        {/* Format comparison */}
+        {selectedVersion.formats.length > 1 && (
+          <div className="mt-3">
+            <FormatMismatchReport />
+          </div>
+        )}
+
         {/* Tags */}
         <div className="mt-3">
           <TagManager versionId={selectedVersion.id!} currentTags={selectedVersion.tags} />
@@ -114,6 +211,11 @@ export default function VersionView() {
                    editorRef.current?.insertTimestamp(time);
                 }
               }}
+              onAddRangeNote={(start, end) => {
+                if (id === selectedVersion.id) {
+                  editorRef.current?.insertTimeRange(start, end);
+                }
+              }}
             />
           </div>
         ))}
@@ -121,13 +223,35 @@ export default function VersionView() {
 
       {/* Notes Section */}
       <div className="flex-1 overflow-y-auto custom-scrollbar p-4">
-        <div className="mb-3">
+        <div className="mb-3 flex items-center justify-between">
           <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wide mb-2">
             Notes ({notes.length})
           </h3>
+          {selectedSong.versions.length > 1 && (
+            <button
+              onClick={() => setShowCarryForward(true)}
+              className="btn btn-ghost btn-sm text-xs flex items-center gap-1 mb-2"
+              title="Copy unresolved notes from another version of this song"
+            >
+              <Forward size={14} />
+              Carry forward
+            </button>
+          )}
         </div>
         <RichTextEditor ref={editorRef} versionId={selectedVersion.id} />
+
+        <div className="mt-6 mb-3">
+          <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wide mb-2">
+            Images ({images.length})
+          </h3>
+        </div>
+        <ImageGallery versionId={selectedVersion.id!} />
       </div>
+
+      {showGrouping && <VersionGroupingDialog onClose={() => setShowGrouping(false)} />}
+      {showCompare && <CompareView onClose={() => setShowCompare(false)} />}
+      {showCarryForward && <CarryForwardDialog onClose={() => setShowCarryForward(false)} />}
+      {showDiff && <VersionDiffView onClose={() => setShowDiff(false)} />}
     </div>
   );
 }
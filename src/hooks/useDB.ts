@@ -1,7 +1,24 @@
-import { db, getSongsWithVersions } from '@lib/db';
+import {
+  db, getSongsWithVersions, Song, ScanSettings, GroupingRules, FormatPolicy, MismatchThresholds, VersionFilter,
+  NoteStatus,
+} from '@lib/db';
 import * as audioScanner from '@lib/audioScanner';
+import * as versionGrouping from '@lib/versionGrouping';
+import * as backup from '@lib/backup';
+import * as relink from '@lib/relink';
+import * as songAccess from '@lib/songAccess';
 import * as imageManager from '@lib/imageManager';
-import { requestFolderAccess, serializeHandle, requestImageFile } from '@lib/fileSystem';
+import * as loudnessAnalysis from '@lib/loudnessAnalysis';
+import * as formatPolicy from '@lib/formatPolicy';
+import * as mismatchAnalysis from '@lib/mismatchAnalysis';
+import * as searchIndex from '@lib/search';
+import * as tagLibrary from '@lib/tagLibrary';
+import * as noteTimestamps from '@lib/noteTimestamps';
+import * as carryForward from '@lib/carryForward';
+import * as versionDiff from '@lib/versionDiff';
+import * as reviewers from '@lib/reviewers';
+import { normalizeFilter } from '@lib/versionFilter';
+import { requestFolderAccess, serializeHandle, requestImageFile, cleanupFileHandles } from '@lib/fileSystem';
 
 /**
  * Database operations hook - replaces IPC
@@ -9,6 +26,22 @@ import { requestFolderAccess, serializeHandle, requestImageFile } from '@lib/fil
  */
 export function useDB() {
   return {
+    // Maintenance
+    cleanupFileHandles: async () => {
+      await cleanupFileHandles();
+    },
+
+    // Backup operations
+    exportBackup: async (includeImages: boolean) => {
+      return await backup.exportBackup(includeImages);
+    },
+
+    importBackup: async () => {
+      const restored = await backup.importBackup();
+      searchIndex.invalidateSearchIndex();
+      return restored;
+    },
+
     // Song operations
     getSongs: async () => {
       return await getSongsWithVersions();
@@ -21,9 +54,13 @@ export function useDB() {
       const folderName = dirHandle.name;
       const handleId = await serializeHandle(dirHandle);
 
-      // Check if already exists
+      // Re-adding a known folder picks up any changes instead of duplicating it
       const existing = await db.songs.where('folderHandle').equals(handleId).first();
-      if (existing) return existing;
+      if (existing) {
+        await audioScanner.rescanSongFolder(existing.id!);
+        searchIndex.invalidateSearchIndex();
+        return existing;
+      }
 
       // Add to database
       const songId = await db.songs.add({
@@ -34,16 +71,94 @@ export function useDB() {
 
       // Scan for audio files
       await audioScanner.scanAndAddAudioFiles(dirHandle, songId);
+      searchIndex.invalidateSearchIndex();
 
       const song = await db.songs.get(songId);
       return song || null;
     },
 
+    rescanSong: async (songId: number) => {
+      const result = await audioScanner.rescanSongFolder(songId);
+      searchIndex.invalidateSearchIndex();
+      return result;
+    },
+
+    checkSongsAccess: async () => {
+      const songs = await db.songs.toArray();
+      const access: Record<number, songAccess.SongAccessState> = {};
+
+      for (const song of songs) {
+        try {
+          access[song.id!] = await songAccess.checkSongAccess(song);
+        } catch (error) {
+          console.warn(`Could not check folder for ${song.name}:`, error);
+          access[song.id!] = 'prompt';
+        }
+      }
+
+      return access;
+    },
+
+    // Must be called straight from a click, permission prompts need a user gesture
+    requestSongAccess: async (songIds: number[]) => {
+      const songs = await db.songs.bulkGet(songIds);
+      return await songAccess.requestSongAccess(songs.filter((s) => s !== undefined) as Song[]);
+    },
+
+    relinkSongFolder: async (songId: number) => {
+      const dirHandle = await requestFolderAccess();
+      if (!dirHandle) return null;
+
+      const result = await relink.relinkSongFolder(songId, dirHandle);
+      searchIndex.invalidateSearchIndex();
+      return result;
+    },
+
     removeSong: async (songId: number) => {
-      await db.songs.delete(songId);
+      // The delete hooks cascade through every table that hangs off a song
+      await db.transaction('rw', [db.songs, db.versions, db.versionTags, db.notes, db.noteTimestamps, db.images, db.versionRatings], async () => {
+        await db.songs.delete(songId);
+      });
+      searchIndex.invalidateSearchIndex();
+      return true;
+    },
+
+    updateSongScanSettings: async (songId: number, scanSettings: ScanSettings) => {
+      await db.songs.update(songId, { scanSettings });
       return true;
     },
 
+    updateSongGroupingRules: async (songId: number, groupingRules: GroupingRules) => {
+      await db.songs.update(songId, { groupingRules });
+      const merged = await versionGrouping.regroupSong(songId);
+      searchIndex.invalidateSearchIndex();
+      return merged;
+    },
+
+    updateSongFormatPolicy: async (songId: number, policy: FormatPolicy | null) => {
+      await db.songs.update(songId, { formatPolicy: policy ?? undefined });
+      return await formatPolicy.applyFormatPolicy(songId);
+    },
+
+    // Global format policy
+    getFormatPolicy: async () => {
+      return await formatPolicy.getGlobalFormatPolicy();
+    },
+
+    updateFormatPolicy: async (policy: FormatPolicy) => {
+      await formatPolicy.saveGlobalFormatPolicy(policy);
+      return await formatPolicy.applyFormatPolicy();
+    },
+
+    // Format mismatch thresholds
+    getMismatchThresholds: async () => {
+      return await mismatchAnalysis.getMismatchThresholds();
+    },
+
+    updateMismatchThresholds: async (thresholds: MismatchThresholds) => {
+      return await mismatchAnalysis.saveMismatchThresholds(thresholds);
+    },
+
     updateSongSortPreference: async (songId: number, sortPreference: string) => {
       await db.songs.update(songId, { sortPreference });
       return true;
@@ -56,10 +171,49 @@ export function useDB() {
     },
 
     updateVersionFormat: async (versionId: number, formatIndex: number) => {
-      await db.versions.update(versionId, { selectedFormatIndex: formatIndex });
+      // A hand-picked format is kept by rescans and policy changes
+      await db.versions.update(versionId, { selectedFormatIndex: formatIndex, formatSelectionManual: true });
+      return true;
+    },
+
+    resetFormatSelection: async (versionId: number) => {
+      return await formatPolicy.resetFormatSelection(versionId);
+    },
+
+    analyzeFormatLoudness: async (versionId: number, formatIndex: number) => {
+      return await loudnessAnalysis.analyzeFormatLoudness(versionId, formatIndex);
+    },
+
+    analyzeSongLoudness: async (songId: number) => {
+      return await loudnessAnalysis.analyzeSongLoudness(songId);
+    },
+
+    analyzeVersionMismatch: async (versionId: number) => {
+      return await mismatchAnalysis.analyzeVersionMismatch(versionId);
+    },
+
+    updateVersionCompareSettings: async (versionId: number, compareOffset: number, compareGain: number) => {
+      await db.versions.update(versionId, { compareOffset, compareGain });
+      return true;
+    },
+
+    // What changed between two versions, analysing their audio first when asked
+    getVersionDiff: async (fromId: number, toId: number, analyse = false) => {
+      return await versionDiff.loadVersionDiff(fromId, toId, analyse);
+    },
+
+    mergeVersions: async (sourceId: number, targetId: number) => {
+      await versionGrouping.mergeVersions(sourceId, targetId);
+      searchIndex.invalidateSearchIndex();
       return true;
     },
 
+    splitFormat: async (versionId: number, formatIndex: number, options: versionGrouping.SplitOptions) => {
+      const newVersionId = await versionGrouping.splitFormat(versionId, formatIndex, options);
+      searchIndex.invalidateSearchIndex();
+      return newVersionId;
+    },
+
     // Tag operations
     getTags: async () => {
       return await db.tags.toArray();
@@ -67,45 +221,182 @@ export function useDB() {
 
     createTag: async (name: string, color: string) => {
       const id = await db.tags.add({ name, color });
+      searchIndex.invalidateSearchIndex();
       return await db.tags.get(id);
     },
 
+    getTagUsage: async () => {
+      return await tagLibrary.getTagUsage();
+    },
+
+    findTagByName: async (name: string, exceptId?: number) => {
+      return await tagLibrary.findTagByName(name, exceptId);
+    },
+
+    renameTag: async (tagId: number, name: string) => {
+      const survivingId = await tagLibrary.renameTag(tagId, name);
+      searchIndex.invalidateSearchIndex();
+      return survivingId;
+    },
+
+    updateTag: async (tagId: number, color: string, group: string | null) => {
+      await tagLibrary.updateTagStyle(tagId, color, group);
+      return true;
+    },
+
+    mergeTags: async (sourceId: number, targetId: number) => {
+      await tagLibrary.mergeTags(sourceId, targetId);
+      searchIndex.invalidateSearchIndex();
+      return true;
+    },
+
+    deleteTag: async (tagId: number) => {
+      const removed = await tagLibrary.deleteTag(tagId);
+      searchIndex.invalidateSearchIndex();
+      return removed;
+    },
+
     addTagToVersion: async (versionId: number, tagId: number) => {
       await db.versionTags.add({ versionId, tagId });
+      searchIndex.invalidateSearchIndex();
       return true;
     },
 
     removeTagFromVersion: async (versionId: number, tagId: number) => {
       await db.versionTags.where({ versionId, tagId }).delete();
+      searchIndex.invalidateSearchIndex();
+      return true;
+    },
+
+    // Smart view operations
+    getSmartViews: async () => {
+      const views = await db.smartViews.orderBy('name').toArray();
+      return views.map((view) => ({ ...view, filter: normalizeFilter(view.filter) }));
+    },
+
+    createSmartView: async (name: string, filter: VersionFilter) => {
+      const id = await db.smartViews.add({ name, filter, createdAt: new Date().toISOString() });
+      return await db.smartViews.get(id);
+    },
+
+    deleteSmartView: async (id: number) => {
+      await db.smartViews.delete(id);
+      return true;
+    },
+
+    // Reviewer operations
+    getReviewers: async () => {
+      return await reviewers.getReviewers();
+    },
+
+    getCurrentReviewerId: async () => {
+      return await reviewers.getCurrentReviewerId();
+    },
+
+    setCurrentReviewer: async (reviewerId: number | null) => {
+      await reviewers.setCurrentReviewerId(reviewerId);
+      return true;
+    },
+
+    createReviewer: async (name: string, color: string) => {
+      return await reviewers.createReviewer(name, color);
+    },
+
+    updateReviewer: async (reviewerId: number, name: string, color: string) => {
+      await reviewers.updateReviewer(reviewerId, name, color);
       return true;
     },
 
+    deleteReviewer: async (reviewerId: number) => {
+      await reviewers.deleteReviewer(reviewerId);
+      return true;
+    },
+
+    // One reviewer's rating, returns the version's ratings and new average
+    rateVersion: async (versionId: number, reviewerId: number, rating: number | null) => {
+      return await reviewers.rateVersion(versionId, reviewerId, rating);
+    },
+
     // Note operations
     getNotes: async (versionId: number) => {
       return await db.notes.where('versionId').equals(versionId).toArray();
     },
 
-    createNote: async (versionId: number, content: string, timestamp: number | null) => {
+    // Top-level notes start open, replies take no status of their own
+    createNote: async (
+      versionId: number,
+      content: string,
+      startTime: number | null,
+      endTime: number | null,
+      parentId: number | null = null,
+      authorId: number | null = null
+    ) => {
       const id = await db.notes.add({
         versionId,
         content,
-        timestamp,
+        startTime,
+        endTime,
+        parentId,
+        authorId,
+        ...(parentId === null && { status: 'open' as const }),
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       });
+      await noteTimestamps.indexNoteTimestamps(id as number, content);
+      await searchIndex.updateNoteInIndex(id as number);
       return await db.notes.get(id);
     },
 
-    updateNote: async (noteId: number, content: string) => {
+    updateNote: async (noteId: number, content: string, startTime: number | null, endTime: number | null) => {
       await db.notes.update(noteId, {
         content,
+        startTime,
+        endTime,
         updatedAt: new Date().toISOString(),
       });
+      await noteTimestamps.indexNoteTimestamps(noteId, content);
+      await searchIndex.updateNoteInIndex(noteId);
       return true;
     },
 
+    updateNoteStatus: async (noteId: number, status: NoteStatus) => {
+      await db.notes.update(noteId, { status, updatedAt: new Date().toISOString() });
+      return true;
+    },
+
+    updateNoteAssignee: async (noteId: number, assignee: string | null) => {
+      await db.notes.update(noteId, { assignee: assignee?.trim() || null, updatedAt: new Date().toISOString() });
+      return true;
+    },
+
+    // Every timestamp chip in a version's notes, not just the ones that set a note's range
+    getVersionTimestamps: async (versionId: number) => {
+      return await noteTimestamps.getVersionTimestamps(versionId);
+    },
+
+    // How another version's timeline lines up with this one, for carrying notes over
+    detectNoteAlignment: async (sourceVersionId: number, targetVersionId: number) => {
+      return await carryForward.detectAlignment(sourceVersionId, targetVersionId);
+    },
+
+    carryForwardNotes: async (noteIds: number[], targetVersionId: number, mapping: carryForward.TimeMapping) => {
+      const ids = await carryForward.carryForwardNotes(noteIds, targetVersionId, mapping);
+      for (const id of ids) {
+        await searchIndex.updateNoteInIndex(id);
+      }
+      return ids;
+    },
+
+    // Replies go with the note, the delete hook removes them
     deleteNote: async (noteId: number) => {
-      await db.notes.delete(noteId);
+      const replyIds = await db.notes.where('parentId').equals(noteId).primaryKeys();
+      // The delete hook also clears the timestamp index, it needs that table in the transaction
+      await db.transaction('rw', db.notes, db.noteTimestamps, async () => {
+        await db.notes.delete(noteId);
+      });
+      for (const id of [noteId, ...replyIds]) {
+        searchIndex.removeNoteFromIndex(id as number);
+      }
       return true;
     },
 
@@ -119,11 +410,34 @@ export function useDB() {
       if (!file) return false;
 
       await imageManager.addImage(versionId, file, caption);
+      if (caption) searchIndex.invalidateSearchIndex();
+      return true;
+    },
+
+    // Dropped or pasted files, non-image files are skipped
+    addImageFiles: async (versionId: number, files: File[], timestamp: number | null = null) => {
+      const imageFiles = files.filter((file) => file.type.startsWith('image/'));
+      for (const file of imageFiles) {
+        await imageManager.addImage(versionId, file, null, timestamp);
+      }
+      return imageFiles.length;
+    },
+
+    updateImageCaption: async (imageId: number, caption: string | null) => {
+      await db.images.update(imageId, { caption });
+      await searchIndex.updateImageInIndex(imageId);
+      return true;
+    },
+
+    updateImageTime: async (imageId: number, timestamp: number | null, endTime: number | null) => {
+      await db.images.update(imageId, { timestamp, endTime });
+      await searchIndex.updateImageInIndex(imageId);
       return true;
     },
 
     deleteImage: async (imageId: number) => {
       await imageManager.deleteImage(imageId);
+      await searchIndex.updateImageInIndex(imageId);
       return true;
     },
   };
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { Image } from '@types';
+import { getImageURL } from '@lib/imageManager';
+
+/**
+ * Load object URLs for image attachments, keyed by image id
+ * URLs are revoked when the images change or the component unmounts
+ */
+export function useImageURLs(images: Image[]) {
+  const [urls, setUrls] = useState<Record<number, string>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    const loaded: string[] = [];
+
+    const load = async () => {
+      const next: Record<number, string> = {};
+      for (const image of images) {
+        const url = await getImageURL(image.fileName);
+        if (!url) continue;
+
+        loaded.push(url);
+        next[image.id!] = url;
+      }
+      if (!cancelled) setUrls(next);
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+      loaded.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [images]);
+
+  return urls;
+}
@@ -0,0 +1,28 @@
+import { useAppStore } from '../store/appStore';
+import { useDB } from './useDB';
+import { SongWithVersions, VersionWithTags } from '@types';
+
+/**
+ * Select a version and load its notes and images into the store
+ */
+export function useSelectVersion() {
+  const dbOps = useDB();
+  const { setSelectedSong, setSelectedVersion, setNotes, setImages } = useAppStore();
+
+  return async (song: SongWithVersions, version: VersionWithTags) => {
+    setSelectedSong(song);
+    setSelectedVersion(version);
+
+    // Load notes and images for this version
+    try {
+      const [notes, images] = await Promise.all([
+        dbOps.getNotes(version.id!),
+        dbOps.getImages(version.id!),
+      ]);
+      setNotes(notes);
+      setImages(images);
+    } catch (error) {
+      console.error('Failed to load version details:', error);
+    }
+  };
+}
@@ -1,27 +1,168 @@
-import { parseBlob } from 'music-metadata';
-import { db, VersionFormat } from './db';
-import { scanDirectoryForAudioFiles, getFileFromHandle, serializeHandle, getFileSize } from './fileSystem';
-import { getBaseFileName, findSmallestFormat, checkDurationMismatch } from './formatUtils';
+import { parseBlob, ICommonTagsResult } from 'music-metadata';
+import { db, Version, VersionFormat, ScanSettings, FormatPolicy, MismatchThresholds, AudioTags } from './db';
+import {
+  scanDirectoryForAudioFiles,
+  getFileFromHandle,
+  serializeHandle,
+  deserializeHandle,
+  getFileSize,
+  verifyPermission,
+  ScannedAudioFile,
+} from './fileSystem';
+import { selectFormat, getGroupingRules, getVersionKey } from './formatUtils';
+import { checkDurationMismatch } from './mismatchReport';
+import { loadFormatPolicy } from './formatPolicy';
+import { getMismatchThresholds } from './mismatchAnalysis';
+import { DEFAULT_SCAN_SETTINGS, getScanSettings } from './scanSettings';
+import { parseVersionInfo } from './versionInfo';
+
+// Summary of what a rescan changed, counted per format
+export interface RescanResult {
+  added: number;
+  updated: number;
+  missing: number;
+}
 
 export async function scanAndAddAudioFiles(
   dirHandle: FileSystemDirectoryHandle,
-  songId: number
+  songId: number,
+  settings: ScanSettings = DEFAULT_SCAN_SETTINGS
 ): Promise<void> {
-  const audioFileHandles = await scanDirectoryForAudioFiles(dirHandle);
+  const audioFiles = await scanDirectoryForAudioFiles(dirHandle, settings);
+  await addFilesToSong(songId, audioFiles);
+}
+
+// Rescan a song's stored folder: add new files, refresh changed ones and flag missing ones.
+// Versions are updated in place so their notes, tags and ratings are kept.
+export async function rescanSongFolder(songId: number): Promise<RescanResult> {
+  const song = await db.songs.get(songId);
+  if (!song) {
+    throw new Error(`Song ${songId} not found`);
+  }
+
+  const dirHandle = await deserializeHandle(song.folderHandle);
+  if (!dirHandle) {
+    throw new Error(`Folder for "${song.name}" is no longer available`);
+  }
+
+  if (!(await verifyPermission(dirHandle as FileSystemDirectoryHandle, 'read'))) {
+    throw new Error(`Permission to read "${song.name}" was denied`);
+  }
+
+  const audioFiles = await scanDirectoryForAudioFiles(
+    dirHandle as FileSystemDirectoryHandle,
+    getScanSettings(song)
+  );
+
+  // Resolve stable handle IDs so files are matched to existing formats by identity
+  const unclaimedFiles = new Map<string, ScannedAudioFile>();
+  for (const audioFile of audioFiles) {
+    unclaimedFiles.set(await serializeHandle(audioFile.handle, audioFile.relativePath), audioFile);
+  }
+
+  const result: RescanResult = { added: 0, updated: 0, missing: 0 };
+  const formatPolicy = await loadFormatPolicy(song);
+  const thresholds = await getMismatchThresholds();
+
+  const versions = await db.versions.where('songId').equals(songId).toArray();
+
+  for (const version of versions) {
+    const selectedHandleId = version.formats[version.selectedFormatIndex]?.fileHandle;
+    let changed = false;
+
+    const formats: VersionFormat[] = [];
+    for (const format of version.formats) {
+      const audioFile = unclaimedFiles.get(format.fileHandle);
+
+      if (!audioFile) {
+        if (!format.missing) {
+          result.missing++;
+          changed = true;
+        }
+        formats.push({ ...format, missing: true });
+        continue;
+      }
+
+      unclaimedFiles.delete(format.fileHandle);
+
+      const file = await getFileFromHandle(audioFile.handle);
+      const modifiedAt = new Date(file.lastModified).toISOString();
+      const sameFile = file.size === format.fileSize && modifiedAt === format.modifiedAt;
+      const unchanged = !format.missing && sameFile;
+      // Formats scanned before technical details were recorded are read again once
+      if (unchanged && format.sampleRate !== undefined) {
+        // Backfill paths for formats scanned before they were recorded
+        if (format.relativePath !== audioFile.relativePath) {
+          changed = true;
+        }
+        formats.push({ ...format, relativePath: audioFile.relativePath });
+        continue;
+      }
+
+      // File changed or came back - refresh its metadata but keep the stored handle
+      const audioMetadata = await extractAudioMetadata(file);
+      formats.push({
+        ...format,
+        ...audioMetadata,
+        fileSize: file.size,
+        relativePath: audioFile.relativePath,
+        modifiedAt,
+        missing: false,
+        // A file that only came back keeps its analysis, an edited one is measured again
+        loudness: sameFile ? format.loudness : undefined,
+        envelope: sameFile ? format.envelope : undefined,
+      });
+      if (!unchanged) result.updated++;
+      changed = true;
+    }
 
-  // Group files by base filename
-  const groupedFiles = new Map<string, FileSystemFileHandle[]>();
+    if (!changed) continue;
 
-  for (const fileHandle of audioFileHandles) {
-    const baseName = getBaseFileName(fileHandle.name);
-    if (!groupedFiles.has(baseName)) {
-      groupedFiles.set(baseName, []);
+    // Keep a hand-picked format unless its file went missing, otherwise follow the policy
+    const previousIndex = formats.findIndex((f) => f.fileHandle === selectedHandleId);
+    const keepManual = version.formatSelectionManual && previousIndex >= 0 && !formats[previousIndex].missing;
+    const selectedFormatIndex = keepManual ? previousIndex : selectFormat(formats, formatPolicy);
+
+    await db.versions.update(version.id!, {
+      formats,
+      selectedFormatIndex,
+      formatSelectionManual: keepManual,
+      hasDurationMismatch: checkDurationMismatch(formats, thresholds),
+      modifiedAt: formats[selectedFormatIndex].modifiedAt,
+    });
+  }
+
+  // Whatever is left over is new to this song
+  result.added = await addFilesToSong(songId, Array.from(unclaimedFiles.values()));
+
+  return result;
+}
+
+// Group files into versions and add them to the song, returns number of formats added
+async function addFilesToSong(
+  songId: number,
+  audioFiles: ScannedAudioFile[]
+): Promise<number> {
+  let added = 0;
+
+  const song = await db.songs.get(songId);
+  const rules = getGroupingRules(song || {});
+  const formatPolicy = await loadFormatPolicy(song || {});
+  const thresholds = await getMismatchThresholds();
+
+  // Group files by version key, wherever they sit in the folder tree
+  const groupedFiles = new Map<string, ScannedAudioFile[]>();
+
+  for (const audioFile of audioFiles) {
+    const versionKey = getVersionKey(audioFile.handle.name, rules);
+    if (!groupedFiles.has(versionKey)) {
+      groupedFiles.set(versionKey, []);
     }
-    groupedFiles.get(baseName)!.push(fileHandle);
+    groupedFiles.get(versionKey)!.push(audioFile);
   }
 
   // Create or update version for each group
-  for (const [versionName, handles] of groupedFiles.entries()) {
+  for (const [versionName, files] of groupedFiles.entries()) {
     // Check if version already exists
     const existing = await db.versions
       .where({ songId, versionName })
@@ -29,40 +170,45 @@ export async function scanAndAddAudioFiles(
 
     if (existing) {
       // Check if any new formats need to be added
-      await addNewFormatsToVersion(existing, handles);
+      added += await addNewFormatsToVersion(existing, files, formatPolicy, thresholds);
     } else {
       // Create new version with all formats
-      await createVersionWithFormats(songId, versionName, handles);
+      added += await createVersionWithFormats(songId, versionName, files, formatPolicy, thresholds);
     }
   }
+
+  return added;
 }
 
 async function createVersionWithFormats(
   songId: number,
   versionName: string,
-  handles: FileSystemFileHandle[]
-): Promise<void> {
+  files: ScannedAudioFile[],
+  formatPolicy: FormatPolicy,
+  thresholds: MismatchThresholds
+): Promise<number> {
   const formats: VersionFormat[] = [];
 
-  for (const fileHandle of handles) {
-    const formatData = await extractFormatMetadata(fileHandle);
+  for (const audioFile of files) {
+    const formatData = await extractFormatMetadata(audioFile);
     if (formatData) {
       formats.push(formatData);
     }
   }
 
-  if (formats.length === 0) return;
+  if (formats.length === 0) return 0;
 
-  // Find smallest format for default selection
-  const selectedFormatIndex = findSmallestFormat(formats);
+  // Default selection follows the format policy
+  const selectedFormatIndex = selectFormat(formats, formatPolicy);
 
   // Check for duration mismatch
-  const hasDurationMismatch = checkDurationMismatch(formats);
+  const hasDurationMismatch = checkDurationMismatch(formats, thresholds);
 
   // Add to database
   await db.versions.add({
     songId,
     versionName,
+    ...parseVersionInfo(versionName),
     formats,
     selectedFormatIndex,
     hasDurationMismatch,
@@ -70,50 +216,60 @@ async function createVersionWithFormats(
     createdAt: new Date().toISOString(),
     modifiedAt: formats[selectedFormatIndex].modifiedAt,
   });
+
+  return formats.length;
 }
 
 async function addNewFormatsToVersion(
-  version: any,
-  handles: FileSystemFileHandle[]
-): Promise<void> {
+  version: Version,
+  files: ScannedAudioFile[],
+  formatPolicy: FormatPolicy,
+  thresholds: MismatchThresholds
+): Promise<number> {
   const existingHandleIds = new Set(version.formats.map((f: VersionFormat) => f.fileHandle));
   const newFormats: VersionFormat[] = [...version.formats];
-  let hasNewFormats = false;
+  let addedCount = 0;
 
-  for (const fileHandle of handles) {
-    const handleId = await serializeHandle(fileHandle);
+  for (const audioFile of files) {
+    const handleId = await serializeHandle(audioFile.handle, audioFile.relativePath);
 
     // Skip if this format already exists
     if (existingHandleIds.has(handleId)) continue;
 
-    const formatData = await extractFormatMetadata(fileHandle);
+    const formatData = await extractFormatMetadata(audioFile);
     if (formatData) {
       newFormats.push(formatData);
-      hasNewFormats = true;
+      addedCount++;
     }
   }
 
-  if (hasNewFormats) {
-    // Recalculate default format (smallest)
-    const selectedFormatIndex = findSmallestFormat(newFormats);
+  if (addedCount > 0) {
+    // Recalculate default format, a hand-picked one stays put
+    const selectedFormatIndex = version.formatSelectionManual
+      ? version.selectedFormatIndex
+      : selectFormat(newFormats, formatPolicy);
 
     // Recalculate duration mismatch
-    const hasDurationMismatch = checkDurationMismatch(newFormats);
+    const hasDurationMismatch = checkDurationMismatch(newFormats, thresholds);
 
     // Update version
     await db.versions.update(version.id!, {
       formats: newFormats,
       selectedFormatIndex,
       hasDurationMismatch,
-      modifiedAt: new Date().toISOString(),
+      modifiedAt: newFormats[selectedFormatIndex].modifiedAt,
     });
   }
+
+  return addedCount;
 }
 
-async function extractFormatMetadata(fileHandle: FileSystemFileHandle): Promise<VersionFormat | null> {
+async function extractFormatMetadata(audioFile: ScannedAudioFile): Promise<VersionFormat | null> {
+  const { handle: fileHandle, relativePath } = audioFile;
+
   try {
     const file = await getFileFromHandle(fileHandle);
-    const handleId = await serializeHandle(fileHandle);
+    const handleId = await serializeHandle(fileHandle, relativePath);
     const fileSize = await getFileSize(fileHandle);
 
     // Extract audio metadata
@@ -122,9 +278,8 @@ async function extractFormatMetadata(fileHandle: FileSystemFileHandle): Promise<
     return {
       fileHandle: handleId,
       fileName: fileHandle.name,
-      format: audioMetadata.format,
-      bitrate: audioMetadata.bitrate,
-      duration: audioMetadata.duration,
+      relativePath,
+      ...audioMetadata,
       fileSize,
       modifiedAt: new Date(file.lastModified).toISOString(),
     };
@@ -134,13 +289,20 @@ async function extractFormatMetadata(fileHandle: FileSystemFileHandle): Promise<
   }
 }
 
-async function extractAudioMetadata(file: File) {
+export async function extractAudioMetadata(file: File) {
   try {
-    const metadata = await parseBlob(file);
+    const metadata = await parseBlob(file, { skipCovers: true });
     return {
       duration: metadata.format.duration || null,
       bitrate: metadata.format.bitrate ? Math.round(metadata.format.bitrate / 1000) : null,
       format: metadata.format.container || file.name.slice(file.name.lastIndexOf('.') + 1),
+      sampleRate: metadata.format.sampleRate || null,
+      // Lossy decoders report a nominal bit depth, it says nothing about the file
+      bitDepth: metadata.format.lossless ? metadata.format.bitsPerSample || null : null,
+      channels: metadata.format.numberOfChannels || null,
+      codec: metadata.format.codec || null,
+      lossless: metadata.format.lossless ?? null,
+      tags: getAudioTags(metadata.common),
     };
   } catch (error) {
     console.error('Error extracting metadata:', error);
@@ -148,6 +310,28 @@ async function extractAudioMetadata(file: File) {
       duration: null,
       bitrate: null,
       format: file.name.slice(file.name.lastIndexOf('.') + 1),
+      sampleRate: null,
+      bitDepth: null,
+      channels: null,
+      codec: null,
+      lossless: null,
+      tags: {},
     };
   }
 }
+
+// Keep the embedded tags that matter when comparing bounces, dropping empty ones
+function getAudioTags(common: ICommonTagsResult): AudioTags {
+  const tags: AudioTags = {
+    title: common.title,
+    artist: common.artist,
+    bpm: common.bpm,
+    key: common.key,
+    isrc: common.isrc?.[0],
+    comment: common.comment?.map((c) => c.text).find(Boolean),
+  };
+
+  return Object.fromEntries(
+    Object.entries(tags).filter(([, value]) => value !== undefined && value !== '')
+  ) as AudioTags;
+}
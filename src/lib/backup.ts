@@ -0,0 +1,294 @@
+import { fileOpen, fileSave } from 'browser-fs-access';
+import { db, Song, Version, Tag, VersionTag, Note, Image, AppSettings, SmartView, Reviewer, VersionRating } from './db';
+import { deserializeHandle, serializeHandle, verifyPermission } from './fileSystem';
+import { initializeImagesFolder } from './imageManager';
+import { sanitizeNoteHtml } from './noteHtml';
+import { rebuildNoteTimestamps } from './noteTimestamps';
+import { convertTimestampMentions } from './timestamps';
+
+export const BACKUP_FORMAT = 'song-notes-backup';
+export const BACKUP_VERSION = 1;
+
+// Versioned snapshot of everything the user wrote
+// File system handles can't be serialized, so folders must be re-linked after a restore
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;       // Backup file layout version
+  schemaVersion: number; // Dexie schema version the tables were exported from
+  exportedAt: string;
+  tables: {
+    songs: Song[];
+    versions: Version[];
+    tags: Tag[];
+    versionTags: VersionTag[];
+    notes: Note[];
+    images: Image[];
+    settings: AppSettings[];
+    smartViews?: SmartView[]; // Missing in backups made before smart views existed
+    reviewers?: Reviewer[];   // Missing in backups made before reviewers existed
+    versionRatings?: VersionRating[];
+  };
+  imageFiles: Record<string, string>; // Image file name -> data URL
+}
+
+// Build a backup of all tables, optionally embedding the image files
+export async function createBackup(includeImages: boolean): Promise<BackupFile> {
+  const [songs, versions, tags, versionTags, notes, images, settings, smartViews, reviewers, versionRatings] = await Promise.all([
+    db.songs.toArray(),
+    db.versions.toArray(),
+    db.tags.toArray(),
+    db.versionTags.toArray(),
+    db.notes.toArray(),
+    db.images.toArray(),
+    db.settings.toArray(),
+    db.smartViews.toArray(),
+    db.reviewers.toArray(),
+    db.versionRatings.toArray(),
+  ]);
+
+  const imageFiles = includeImages ? await readImageFiles(images) : {};
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: db.verno,
+    exportedAt: new Date().toISOString(),
+    tables: { songs, versions, tags, versionTags, notes, images, settings, smartViews, reviewers, versionRatings },
+    imageFiles,
+  };
+}
+
+// Read image files from the images folder as data URLs, skipping any that can't be read
+async function readImageFiles(images: Image[]): Promise<Record<string, string>> {
+  const imageFiles: Record<string, string> = {};
+  if (images.length === 0) return imageFiles;
+
+  const settings = await db.settings.get(1);
+  if (!settings?.imagesFolderHandle) return imageFiles;
+
+  const imagesFolder = await deserializeHandle(settings.imagesFolderHandle);
+  if (!imagesFolder || !(await verifyPermission(imagesFolder, 'read'))) {
+    console.warn('Images folder not accessible, exporting without image files');
+    return imageFiles;
+  }
+
+  for (const image of images) {
+    try {
+      const fileHandle = await (imagesFolder as FileSystemDirectoryHandle).getFileHandle(image.fileName);
+      imageFiles[image.fileName] = await blobToDataURL(await fileHandle.getFile());
+    } catch (err) {
+      console.warn(`Could not read image ${image.fileName}:`, err);
+    }
+  }
+
+  return imageFiles;
+}
+
+// Save a backup to a file chosen by the user, returns false if cancelled
+export async function exportBackup(includeImages: boolean): Promise<boolean> {
+  const backup = await createBackup(includeImages);
+  const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
+  const date = backup.exportedAt.slice(0, 10);
+
+  try {
+    await fileSave(blob, {
+      fileName: `song-notes-backup-${date}.json`,
+      extensions: ['.json'],
+      description: 'Song Notes backup',
+    });
+    return true;
+  } catch (err: any) {
+    if (err.name === 'AbortError') {
+      return false;
+    }
+    throw err;
+  }
+}
+
+type FieldType = 'number' | 'string' | 'object' | 'array';
+
+// Fields every record of a table needs for the restore and the UI to work
+// Tables missing from the file restore empty, like tables added after it was made
+const REQUIRED_FIELDS: Record<keyof BackupFile['tables'], Record<string, FieldType>> = {
+  songs: { id: 'number', name: 'string' },
+  versions: { id: 'number', songId: 'number', versionName: 'string', formats: 'array', selectedFormatIndex: 'number' },
+  tags: { id: 'number', name: 'string' },
+  versionTags: { versionId: 'number', tagId: 'number' },
+  notes: { id: 'number', versionId: 'number', content: 'string' },
+  images: { id: 'number', versionId: 'number', fileName: 'string' },
+  settings: { id: 'number' },
+  smartViews: { name: 'string', filter: 'object' },
+  reviewers: { id: 'number', name: 'string', color: 'string' },
+  versionRatings: { versionId: 'number', reviewerId: 'number', rating: 'number' },
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasType(value: unknown, type: FieldType): boolean {
+  if (type === 'array') return Array.isArray(value);
+  if (type === 'object') return isRecord(value);
+  return typeof value === type;
+}
+
+function checkTable(name: string, rows: unknown, fields: Record<string, FieldType>): void {
+  if (!Array.isArray(rows)) {
+    throw new Error(`Backup table "${name}" is not a list`);
+  }
+  rows.forEach((row, i) => {
+    const missing = Object.entries(fields).find(([field, type]) => !isRecord(row) || !hasType(row[field], type));
+    if (missing) {
+      throw new Error(`Backup table "${name}" row ${i + 1} has no valid "${missing[0]}"`);
+    }
+  });
+}
+
+// Validate parsed JSON and return it as a backup
+// Everything is checked up front so a broken file fails before the database is cleared
+export function parseBackup(text: string): BackupFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+
+  if (!isRecord(data) || data.format !== BACKUP_FORMAT || !isRecord(data.tables)) {
+    throw new Error('Not a Song Notes backup file');
+  }
+  if (typeof data.version !== 'number' || typeof data.schemaVersion !== 'number') {
+    throw new Error('Backup file has no version');
+  }
+  if (data.version > BACKUP_VERSION || data.schemaVersion > db.verno) {
+    throw new Error('This backup was made by a newer version of Song Notes');
+  }
+
+  const { tables } = data;
+  for (const [name, fields] of Object.entries(REQUIRED_FIELDS)) {
+    if (tables[name] !== undefined) checkTable(name, tables[name], fields);
+  }
+  for (const version of (tables.versions ?? []) as Record<string, unknown>[]) {
+    checkTable(`formats of ${version.versionName}`, version.formats, { fileName: 'string', format: 'string' });
+  }
+
+  const imageFiles = data.imageFiles ?? {};
+  if (!isRecord(imageFiles) || !Object.values(imageFiles).every((url) => typeof url === 'string' && url.startsWith('data:'))) {
+    throw new Error('Backup image files are not embedded data');
+  }
+
+  return { ...data, imageFiles } as unknown as BackupFile;
+}
+
+export interface RestoreResult {
+  imageFailures: string[]; // Image files that couldn't be written to the images folder
+}
+
+// Replace the whole database with the backup's contents
+// Folder and file references are cleared; songs must be re-linked afterwards
+// The images folder is settled before anything is replaced, so cancelling it leaves the library as it was
+export async function restoreBackup(backup: BackupFile): Promise<RestoreResult> {
+  const { tables } = backup;
+
+  const imageEntries = Object.entries(backup.imageFiles);
+  const imagesFolder = imageEntries.length > 0 ? await initializeImagesFolder() : null;
+  if (imageEntries.length > 0 && !imagesFolder) {
+    throw new Error('The backup has images, choose a folder for them to restore it. Nothing was changed.');
+  }
+
+  const songs = (tables.songs || []).map((song) => ({ ...song, folderHandle: '' }));
+  const versions = (tables.versions || []).map((version) => ({
+    ...version,
+    formats: version.formats.map((format) => ({ ...format, fileHandle: '', missing: true })),
+  }));
+  // Backups from before schema 6 store a single note timestamp, before schema 8 timestamps are plain text
+  const notes = (tables.notes || []).map(({ timestamp, ...note }: Note & { timestamp?: number | null }) => ({
+    ...note,
+    // Backups can come from someone else, notes keep only what the editor writes
+    content: sanitizeNoteHtml(backup.schemaVersion < 8 ? convertTimestampMentions(note.content) : note.content),
+    startTime: note.startTime ?? timestamp ?? null,
+    endTime: note.endTime ?? null,
+  }));
+  const settings = (tables.settings || []).map((record) => ({
+    ...record,
+    imagesFolderHandle: null,
+    fileHandlesCleanedUp: true,
+  }));
+
+  await db.transaction(
+    'rw',
+    [
+      db.songs, db.versions, db.tags, db.versionTags, db.notes, db.noteTimestamps, db.images, db.settings, db.fileHandles,
+      db.smartViews, db.reviewers, db.versionRatings,
+    ],
+    async () => {
+      await Promise.all(db.tables.map((table) => table.clear()));
+
+      await db.songs.bulkAdd(songs);
+      await db.versions.bulkAdd(versions);
+      await db.tags.bulkAdd(tables.tags || []);
+      await db.versionTags.bulkAdd(tables.versionTags || []);
+      await db.notes.bulkAdd(notes);
+      await db.images.bulkAdd(tables.images || []);
+      await db.settings.bulkAdd(settings);
+      await db.smartViews.bulkAdd(tables.smartViews || []);
+      await db.reviewers.bulkAdd(tables.reviewers || []);
+      await db.versionRatings.bulkAdd(tables.versionRatings || []);
+    }
+  );
+
+  // The timestamp index is derived from the notes, so it isn't part of the backup
+  await rebuildNoteTimestamps();
+
+  const imageFailures: string[] = [];
+  if (imagesFolder) {
+    // The restore cleared the stored handle, point the library back at the folder
+    const settingsRecord = await db.settings.get(1);
+    await db.settings.put({ ...settingsRecord, id: 1, imagesFolderHandle: await serializeHandle(imagesFolder) });
+
+    // The library is already restored, a file that can't be written is reported rather than failing it
+    for (const [fileName, dataURL] of imageEntries) {
+      try {
+        const blob = await (await fetch(dataURL)).blob();
+        const fileHandle = await imagesFolder.getFileHandle(fileName, { create: true });
+        const writable = await fileHandle.createWritable();
+        await writable.write(blob);
+        await writable.close();
+      } catch (err) {
+        console.error(`Could not restore image ${fileName}:`, err);
+        imageFailures.push(fileName);
+      }
+    }
+  }
+
+  return { imageFailures };
+}
+
+// Pick a backup file and restore it, returns null if cancelled
+export async function importBackup(): Promise<RestoreResult | null> {
+  let file: File;
+  try {
+    file = await fileOpen({
+      extensions: ['.json'],
+      mimeTypes: ['application/json'],
+      description: 'Song Notes backup',
+    });
+  } catch (err: any) {
+    if (err.name === 'AbortError') {
+      return null;
+    }
+    throw err;
+  }
+
+  const backup = parseBackup(await file.text());
+  return await restoreBackup(backup);
+}
+
+function blobToDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
@@ -0,0 +1,123 @@
+import { db, Note, Version } from './db';
+import { ENVELOPE_RATE, correlateEnvelopes } from './mismatchReport';
+import { analyzeFormatLoudness } from './loudnessAnalysis';
+import { indexNoteTimestamps } from './noteTimestamps';
+import { remapTimestamps } from './timestamps';
+
+// Copy notes from one version of a song to another, moving their timestamps to where
+// the same moment plays in the new version.
+
+const MAX_ALIGN_LAG = 300;         // Segments searched either way (30 s), covers a new intro or a cut
+const MIN_ALIGN_CORRELATION = 0.5; // Below this the envelopes don't say where the content went
+
+// New time = old time × scale + offset
+export interface TimeMapping {
+  offset: number; // Seconds
+  scale: number;
+}
+
+export interface AlignmentResult {
+  mapping: TimeMapping;
+  method: 'content' | 'length'; // Matched loudness envelopes, or stretched by duration as a fallback
+  correlation: number | null;
+}
+
+export const IDENTITY_MAPPING: TimeMapping = { offset: 0, scale: 1 };
+
+// Never before the start, and not past the end when the new version's length is known
+export function mapTime(seconds: number, mapping: TimeMapping, duration?: number | null): number {
+  const mapped = Math.round((seconds * mapping.scale + mapping.offset) * 10) / 10;
+  return Math.max(0, duration ? Math.min(mapped, duration) : mapped);
+}
+
+// Loudness envelope of a version's selected format, analysed on first use
+async function loadEnvelope(version: Version): Promise<number[] | null> {
+  const format = version.formats[version.selectedFormatIndex];
+  if (!format || format.missing) return null;
+  if (format.envelope) return format.envelope;
+
+  await analyzeFormatLoudness(version.id!, version.selectedFormatIndex);
+  const analysed = await db.versions.get(version.id!);
+  return analysed?.formats[version.selectedFormatIndex]?.envelope ?? null;
+}
+
+// Work out how the source version's timeline maps onto the target's
+// Matching envelopes give a shift; failing that, times are stretched by the ratio of the durations
+export async function detectAlignment(sourceVersionId: number, targetVersionId: number): Promise<AlignmentResult | null> {
+  const [source, target] = await Promise.all([db.versions.get(sourceVersionId), db.versions.get(targetVersionId)]);
+  if (!source || !target) {
+    throw new Error('Both versions must exist to align them');
+  }
+
+  const [sourceEnvelope, targetEnvelope] = [await loadEnvelope(source), await loadEnvelope(target)];
+  if (sourceEnvelope && targetEnvelope) {
+    // Lag is how many segments later the source content plays in the target
+    const match = correlateEnvelopes(targetEnvelope, sourceEnvelope, MAX_ALIGN_LAG);
+    if (match && match.correlation >= MIN_ALIGN_CORRELATION) {
+      return {
+        mapping: { offset: match.lag / ENVELOPE_RATE, scale: 1 },
+        method: 'content',
+        correlation: Math.round(match.correlation * 100) / 100,
+      };
+    }
+  }
+
+  const sourceDuration = source.formats[source.selectedFormatIndex]?.duration;
+  const targetDuration = target.formats[target.selectedFormatIndex]?.duration;
+  if (sourceDuration && targetDuration) {
+    return { mapping: { offset: 0, scale: targetDuration / sourceDuration }, method: 'length', correlation: null };
+  }
+
+  return null;
+}
+
+// Copy notes to the target version as new open notes that point back at their originals
+// Replies stay with the original discussion; notes already carried to the target are skipped
+// Returns the IDs of the new notes
+export async function carryForwardNotes(
+  noteIds: number[],
+  targetVersionId: number,
+  mapping: TimeMapping = IDENTITY_MAPPING
+): Promise<number[]> {
+  const target = await db.versions.get(targetVersionId);
+  if (!target) {
+    throw new Error(`Version ${targetVersionId} not found`);
+  }
+
+  const duration = target.formats[target.selectedFormatIndex]?.duration;
+  const sources = (await db.notes.bulkGet(noteIds)).filter((n): n is Note => !!n);
+  const alreadyCarried = new Set(
+    (await db.notes.where('versionId').equals(targetVersionId).toArray()).map((n) => n.carriedFromNoteId)
+  );
+
+  const now = new Date().toISOString();
+  const created: number[] = [];
+
+  for (const source of sources) {
+    if (source.versionId === targetVersionId || alreadyCarried.has(source.id!)) continue;
+
+    const content = remapTimestamps(source.content, (seconds) => mapTime(seconds, mapping, duration));
+    const startTime = source.startTime !== null ? mapTime(source.startTime, mapping, duration) : null;
+    const endTime = source.endTime !== null ? mapTime(source.endTime, mapping, duration) : null;
+
+    const id = await db.notes.add({
+      versionId: targetVersionId,
+      content,
+      startTime,
+      endTime: endTime !== null && startTime !== null && endTime > startTime ? endTime : null,
+      parentId: null,
+      status: 'open',
+      assignee: source.assignee ?? null,
+      authorId: source.authorId ?? null,
+      carriedFromNoteId: source.id!,
+      carriedFromVersionId: source.versionId,
+      createdAt: now,
+      updatedAt: now,
+    }) as number;
+
+    await indexNoteTimestamps(id, content);
+    created.push(id);
+  }
+
+  return created;
+}
@@ -0,0 +1,200 @@
+import { Version } from './db';
+import { deserializeHandle } from './fileSystem';
+
+// One decoded version in a comparison
+export interface CompareTrack {
+  versionId: number;
+  buffer: AudioBuffer;
+  offset: number; // Seconds skipped at the start (negative delays the track)
+  gain: number;   // dB
+}
+
+// Plays several decoded versions in lockstep, only one of them audible
+export interface ComparePlayer {
+  play: () => void;
+  pause: () => void;
+  seek: (position: number) => void;
+  setActive: (versionId: number) => void;
+  setTrackSettings: (versionId: number, offset: number, gain: number) => void;
+  getPosition: () => number;
+  getDuration: () => number;
+  isPlaying: () => boolean;
+  destroy: () => void;
+}
+
+// Short crossfade so switching doesn't click, still well under a gap you could hear
+const SWITCH_FADE = 0.005; // seconds
+
+// Decode the selected format of a version into memory
+export async function decodeVersion(version: Version, context: BaseAudioContext): Promise<AudioBuffer> {
+  const format = version.formats[version.selectedFormatIndex];
+  if (!format || format.missing) {
+    throw new Error(`${version.versionName} has no playable file`);
+  }
+
+  const fileHandle = await deserializeHandle(format.fileHandle);
+  if (!fileHandle) {
+    throw new Error(`${format.fileName} can't be found`);
+  }
+
+  const file = await (fileHandle as FileSystemFileHandle).getFile();
+  return await context.decodeAudioData(await file.arrayBuffer());
+}
+
+// RMS level of a whole buffer across all channels, in dBFS
+export function measureRms(buffer: AudioBuffer): number {
+  let sum = 0;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      sum += data[i] * data[i];
+    }
+  }
+
+  const rms = Math.sqrt(sum / (buffer.length * buffer.numberOfChannels));
+  return rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+}
+
+// Gains that bring every track down to the level of the quietest, so nothing clips
+export function matchLoudness(tracks: CompareTrack[]): Record<number, number> {
+  const levels = tracks.map((track) => ({ versionId: track.versionId, rms: measureRms(track.buffer) }));
+  const audible = levels.filter((level) => Number.isFinite(level.rms));
+  const target = Math.min(...audible.map((level) => level.rms));
+
+  const gains: Record<number, number> = {};
+  for (const level of levels) {
+    gains[level.versionId] = Number.isFinite(level.rms) ? Math.round((target - level.rms) * 10) / 10 : 0;
+  }
+  return gains;
+}
+
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+// All tracks run from the same start time so switching keeps the playhead exactly in place
+export function createComparePlayer(context: AudioContext, tracks: CompareTrack[]): ComparePlayer {
+  const gains = new Map<number, GainNode>();
+  let sources: AudioBufferSourceNode[] = [];
+  let activeId = tracks[0]?.versionId ?? null;
+  let position = 0;   // Playhead when paused, or where playback last started
+  let startedAt = 0;  // Context time playback last started
+  let playing = false;
+
+  for (const track of tracks) {
+    const gain = context.createGain();
+    gain.gain.value = track.versionId === activeId ? dbToGain(track.gain) : 0;
+    gain.connect(context.destination);
+    gains.set(track.versionId, gain);
+  }
+
+  const getDuration = () => Math.max(0, ...tracks.map((track) => track.buffer.duration - track.offset));
+
+  const getPosition = () => {
+    if (!playing) return position;
+    // Nothing has played yet during the short lead-in before the tracks start
+    return Math.min(position + Math.max(0, context.currentTime - startedAt), getDuration());
+  };
+
+  const stopSources = () => {
+    sources.forEach((source) => {
+      source.onended = null;
+      source.stop();
+      source.disconnect();
+    });
+    sources = [];
+  };
+
+  const start = () => {
+    const when = context.currentTime + 0.05; // Same start for every track
+    startedAt = when;
+
+    sources = tracks.map((track) => {
+      const source = context.createBufferSource();
+      source.buffer = track.buffer;
+      source.connect(gains.get(track.versionId)!);
+
+      const bufferTime = position + track.offset;
+      if (bufferTime >= 0) {
+        source.start(when, Math.min(bufferTime, track.buffer.duration));
+      } else {
+        source.start(when - bufferTime, 0);
+      }
+      return source;
+    });
+
+    // The track that ends last decides when playback is over
+    const ends = tracks.map((track) => track.buffer.duration - track.offset);
+    const last = sources[ends.indexOf(Math.max(...ends))];
+    last.onended = () => {
+      playing = false;
+      position = 0;
+      stopSources();
+    };
+  };
+
+  const player: ComparePlayer = {
+    play: () => {
+      if (playing || tracks.length === 0) return;
+      if (context.state === 'suspended') context.resume();
+      if (position >= getDuration()) position = 0;
+      start();
+      playing = true;
+    },
+
+    pause: () => {
+      if (!playing) return;
+      position = getPosition();
+      stopSources();
+      playing = false;
+    },
+
+    seek: (newPosition) => {
+      position = Math.max(0, Math.min(newPosition, getDuration()));
+      if (playing) {
+        stopSources();
+        start();
+      }
+    },
+
+    setActive: (versionId) => {
+      const now = context.currentTime;
+      for (const track of tracks) {
+        const gain = gains.get(track.versionId)!.gain;
+        gain.cancelScheduledValues(now);
+        gain.setValueAtTime(gain.value, now);
+        gain.linearRampToValueAtTime(track.versionId === versionId ? dbToGain(track.gain) : 0, now + SWITCH_FADE);
+      }
+      activeId = versionId;
+    },
+
+    setTrackSettings: (versionId, offset, gainDb) => {
+      const track = tracks.find((t) => t.versionId === versionId);
+      if (!track) return;
+
+      const offsetChanged = track.offset !== offset;
+      track.offset = offset;
+      track.gain = gainDb;
+      if (versionId === activeId) {
+        gains.get(versionId)!.gain.setValueAtTime(dbToGain(gainDb), context.currentTime);
+      }
+
+      // Offsets are applied when sources start, so restart in place
+      if (offsetChanged && playing) {
+        player.seek(getPosition());
+      }
+    },
+
+    getPosition,
+    getDuration,
+    isPlaying: () => playing,
+
+    destroy: () => {
+      stopSources();
+      gains.forEach((gain) => gain.disconnect());
+      playing = false;
+    },
+  };
+
+  return player;
+}
@@ -1,24 +1,85 @@
 import Dexie, { Table } from 'dexie';
 import { getFileSize } from './fileSystem';
-import { getBaseFileName, findSmallestFormat, checkDurationMismatch } from './formatUtils';
+import { getBaseFileName, findSmallestFormat } from './formatUtils';
+import { checkDurationMismatch } from './mismatchReport';
+import { parseVersionInfo } from './versionInfo';
+import { convertTimestampMentions, extractTimestamps } from './timestamps';
+import { isOpenIssue } from './noteThreads';
 
 // Type definitions matching current schema
+export interface ScanSettings {
+  maxDepth: number;            // Subfolder levels to descend into (0 = top level only)
+  includePatterns: string[];   // Globs a file must match, empty matches everything
+  excludePatterns: string[];   // Globs for files or folders to skip, e.g. "*_stem*", "Audio Files/"
+  extraExtensions: string[];   // Additional audio extensions, e.g. ".aiff"
+}
+
+export interface GroupingRules {
+  stripSuffixes: string[];     // Suffixes removed before grouping, "*" is a wildcard, e.g. "(master)", "_*bit"
+  pattern: string | null;      // Regex applied to the base name, the "version" group or first capture is the key
+  ignoreAudioSpecs: boolean;   // Drop bit-depth and sample-rate tokens like "24bit" or "48kHz"
+}
+
+// Which format a version plays by default
+export interface FormatPolicy {
+  mode: 'smallest' | 'quality' | 'order'; // Smallest file, lossless then highest bitrate, or a preferred order
+  order: string[];             // Extensions or containers for 'order', e.g. ["wav", "flac", "mp3"]
+}
+
+// When formats of one version count as mismatched
+export interface MismatchThresholds {
+  durationTolerance: number;   // Fraction of the longer duration, 0.05 allows 5%
+  minCorrelation: number;      // Loudness envelopes correlating less than this are probably different mixes
+}
+
 export interface Song {
   id?: number;
   name: string;
   folderHandle: string; // Serialized FileSystemDirectoryHandle reference
   createdAt: string;
-  sortPreference?: 'created' | 'name' | 'rating' | 'notes';
+  sortPreference?: 'created' | 'name' | 'rating' | 'notes' | 'version' | 'fileDate' | 'loudness';
+  scanSettings?: ScanSettings;
+  groupingRules?: GroupingRules;
+  formatPolicy?: FormatPolicy; // Overrides the global policy, absent follows it
+}
+
+// Loudness of one file, measured per ITU-R BS.1770 / EBU R 128
+export interface LoudnessStats {
+  integrated: number | null;   // LUFS
+  shortTermMax: number | null; // LUFS, loudest 3 s window
+  range: number | null;        // LU (LRA)
+  samplePeak: number | null;   // dBFS
+  truePeak: number | null;     // dBTP, 4x oversampled
+}
+
+// Tags embedded in the audio file, only the ones worth showing next to a mix
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  bpm?: number;
+  key?: string;
+  isrc?: string;
+  comment?: string;
 }
 
 export interface VersionFormat {
   fileHandle: string;        // Serialized FileSystemFileHandle
   fileName: string;          // Original file name
+  relativePath?: string;     // Path inside the song folder, e.g. "Bounces/Mix v3.wav"
   format: string;            // mp3, flac, wav, etc.
   bitrate: number | null;    // kbps
   duration: number | null;   // seconds
+  sampleRate?: number | null; // Hz
+  bitDepth?: number | null;  // Bits per sample, lossless formats only
+  channels?: number | null;
+  codec?: string | null;     // e.g. "PCM", "MPEG 1 Layer 3", "FLAC"
+  lossless?: boolean | null;
+  tags?: AudioTags;
   fileSize: number;          // bytes
   modifiedAt: string;
+  missing?: boolean;         // File was not found on the last rescan
+  loudness?: LoudnessStats;  // Cached analysis, cleared when the file changes
+  envelope?: number[];       // LUFS per 100 ms from the same analysis, compared between formats
 }
 
 export interface Version {
@@ -27,8 +88,14 @@ export interface Version {
   versionName: string;       // Base name without extension
   formats: VersionFormat[];  // Array of format variants
   selectedFormatIndex: number; // Currently selected format
-  hasDurationMismatch: boolean; // Warning flag for duration variance
-  rating: number | null;
+  formatSelectionManual?: boolean; // Picked by hand, the format policy leaves it alone
+  hasDurationMismatch: boolean; // Warning flag for duration, sample-rate or channel mismatch
+  manuallyGrouped?: boolean; // Merged or split by hand, regrouping leaves it alone
+  versionNumber?: number | null; // Ordinal parsed from the name ("v3", "_03", "rev B")
+  versionDate?: string | null;   // Date parsed from the name (YYYY-MM-DD)
+  rating: number | null;     // Average of the reviewers' ratings once there are reviewers
+  compareOffset?: number;    // Seconds skipped at the start in compare mode, lines up pre-roll
+  compareGain?: number;      // dB applied in compare mode to match loudness
   createdAt: string;
   modifiedAt: string;
 }
@@ -37,6 +104,7 @@ export interface Tag {
   id?: number;
   name: string;
   color: string;
+  group?: string | null; // Category such as "status" or "instrument", ungrouped when empty
 }
 
 export interface VersionTag {
@@ -44,31 +112,98 @@ export interface VersionTag {
   tagId: number;
 }
 
+// Someone on the team who rates versions and writes notes, picked in the header
+export interface Reviewer {
+  id?: number;
+  name: string;
+  color: string;
+  createdAt: string;
+}
+
+// One reviewer's rating of a version
+export interface VersionRating {
+  versionId: number;
+  reviewerId: number;
+  rating: number; // 1-5
+  updatedAt: string;
+}
+
+// Review state of a note: feedback stays open until it's fixed (resolved) or dismissed (wontfix)
+export type NoteStatus = 'open' | 'resolved' | 'wontfix';
+
 export interface Note {
   id?: number;
   versionId: number;
   content: string;
-  timestamp: number | null;
+  startTime: number | null; // Seconds, null for notes not tied to a moment
+  endTime: number | null;   // Set when the note covers a range
+  parentId?: number | null; // Set on replies, which share their parent's status
+  status?: NoteStatus;      // Top-level notes only, missing means open
+  assignee?: string | null; // Who should act on it, free text
+  authorId?: number | null; // Reviewer who wrote it, missing for notes from before reviewers
+  carriedFromNoteId?: number | null;    // Note this one was carried forward from
+  carriedFromVersionId?: number | null; // Its version, kept for display if the original is deleted
   createdAt: string;
   updatedAt: string;
 }
 
+// One timestamp chip of a note, indexed so the waveform can mark every one
+export interface NoteTimestamp {
+  id?: number;
+  noteId: number;
+  position: number;     // Order within the note, 0 is the chip that sets the note's range
+  start: number;        // Seconds
+  end: number | null;
+}
+
 export interface Image {
   id?: number;
   versionId: number;
   fileName: string; // Stored in user's images folder
   caption: string | null;
+  timestamp?: number | null; // Moment in the audio the image belongs to (seconds)
+  endTime?: number | null;   // Optional end of the span it covers (seconds)
   createdAt: string;
 }
 
 export interface AppSettings {
   id?: number;
   imagesFolderHandle: string | null; // Serialized handle to images folder
+  fileHandlesCleanedUp?: boolean;    // Duplicate handle cleanup has run
+  formatPolicy?: FormatPolicy;       // Default format selection for every song
+  mismatchThresholds?: MismatchThresholds;
+  currentReviewerId?: number | null; // Who is rating and writing notes in this browser
+}
+
+// Criteria for picking versions across the whole library, unset criteria match everything
+export interface VersionFilter {
+  tagsAll: number[];           // Tag IDs a version must all carry (AND)
+  tagsAny: number[];           // At least one of these when non-empty (OR)
+  tagsNone: number[];          // None of these (NOT)
+  minRating: number | null;    // 1-5
+  unratedOnly: boolean;
+  hasNotes: boolean | null;    // true: with notes, false: without, null: either
+  hasMismatch: boolean | null; // Same for the format mismatch flag
+  formats: string[];           // Has a format with one of these extensions, e.g. ["wav"]
+  withinDays: number | null;   // File date in the last n days, wins over the fixed range
+  dateFrom: string | null;     // YYYY-MM-DD, inclusive
+  dateTo: string | null;       // YYYY-MM-DD, inclusive
+}
+
+// A named filter listed in the sidebar
+export interface SmartView {
+  id?: number;
+  name: string;
+  filter: VersionFilter;
+  createdAt: string;
 }
 
 export interface FileHandleRecord {
   id: string; // UUID
   handle: FileSystemHandle; // Actual handle object (stored via structured cloning)
+  name: string;             // Entry name, used to narrow isSameEntry lookups
+  kind: FileSystemHandleKind;
+  path: string | null;      // Path relative to the song folder (folder name for directories), null if unknown
 }
 
 // Database class
@@ -81,6 +216,10 @@ export class MusicNotesDB extends Dexie {
   images!: Table<Image>;
   settings!: Table<AppSettings>;
   fileHandles!: Table<FileHandleRecord>;
+  smartViews!: Table<SmartView>;
+  noteTimestamps!: Table<NoteTimestamp>;
+  reviewers!: Table<Reviewer>;
+  versionRatings!: Table<VersionRating>;
 
   constructor() {
     super('MusicNotesDB');
@@ -258,6 +397,129 @@ export class MusicNotesDB extends Dexie {
       });
     });
 
+    // Version 4: Index file handles by name for stable identity lookups
+    this.version(4).stores({
+      songs: '++id, name, folderHandle, createdAt, sortPreference',
+      versions: '++id, songId, versionName, rating, createdAt, modifiedAt',
+      tags: '++id, &name, color',
+      versionTags: '[versionId+tagId], versionId, tagId',
+      notes: '++id, versionId, timestamp, createdAt',
+      images: '++id, versionId, fileName, createdAt',
+      settings: '++id',
+      fileHandles: 'id, name',
+    }).upgrade(async (tx) => {
+      await tx.table('fileHandles').toCollection().modify(record => {
+        record.name = record.handle.name;
+        record.kind = record.handle.kind;
+        record.path = null; // Handles stored before this version never recorded where they were
+      });
+    });
+
+    // Version 5: Version ordinals and dates parsed from names
+    this.version(5).stores({
+      songs: '++id, name, folderHandle, createdAt, sortPreference',
+      versions: '++id, songId, versionName, rating, createdAt, modifiedAt',
+      tags: '++id, &name, color',
+      versionTags: '[versionId+tagId], versionId, tagId',
+      notes: '++id, versionId, timestamp, createdAt',
+      images: '++id, versionId, fileName, createdAt',
+      settings: '++id',
+      fileHandles: 'id, name',
+    }).upgrade(async (tx) => {
+      await tx.table('versions').toCollection().modify(version => {
+        Object.assign(version, parseVersionInfo(version.versionName));
+      });
+    });
+
+    // Version 6: Notes cover a time range instead of a single timestamp
+    this.version(6).stores({
+      songs: '++id, name, folderHandle, createdAt, sortPreference',
+      versions: '++id, songId, versionName, rating, createdAt, modifiedAt',
+      tags: '++id, &name, color',
+      versionTags: '[versionId+tagId], versionId, tagId',
+      notes: '++id, versionId, startTime, createdAt',
+      images: '++id, versionId, fileName, createdAt',
+      settings: '++id',
+      fileHandles: 'id, name',
+    }).upgrade(async (tx) => {
+      await tx.table('notes').toCollection().modify(note => {
+        note.startTime = note.timestamp ?? null;
+        note.endTime = null;
+        delete note.timestamp;
+      });
+    });
+
+    // Version 7: Saved smart views
+    this.version(7).stores({
+      songs: '++id, name, folderHandle, createdAt, sortPreference',
+      versions: '++id, songId, versionName, rating, createdAt, modifiedAt',
+      tags: '++id, &name, color',
+      versionTags: '[versionId+tagId], versionId, tagId',
+      notes: '++id, versionId, startTime, createdAt',
+      images: '++id, versionId, fileName, createdAt',
+      settings: '++id',
+      fileHandles: 'id, name',
+      smartViews: '++id, name',
+    });
+
+    // Version 8: Timestamps are chips in the note HTML, indexed per note
+    this.version(8).stores({
+      songs: '++id, name, folderHandle, createdAt, sortPreference',
+      versions: '++id, songId, versionName, rating, createdAt, modifiedAt',
+      tags: '++id, &name, color',
+      versionTags: '[versionId+tagId], versionId, tagId',
+      notes: '++id, versionId, startTime, createdAt',
+      images: '++id, versionId, fileName, createdAt',
+      settings: '++id',
+      fileHandles: 'id, name',
+      smartViews: '++id, name',
+      noteTimestamps: '++id, noteId',
+    }).upgrade(async (tx) => {
+      const timestamps: NoteTimestamp[] = [];
+
+      await tx.table('notes').toCollection().modify((note: Note) => {
+        note.content = convertTimestampMentions(note.content);
+        const ranges = extractTimestamps(note.content);
+        note.startTime = ranges[0]?.start ?? null;
+        note.endTime = ranges[0]?.end ?? null;
+        ranges.forEach((range, position) => {
+          timestamps.push({ noteId: note.id!, position, start: range.start, end: range.end });
+        });
+      });
+
+      await tx.table('noteTimestamps').bulkAdd(timestamps);
+    });
+
+    // Version 9: Replies to notes
+    this.version(9).stores({
+      songs: '++id, name, folderHandle, createdAt, sortPreference',
+      versions: '++id, songId, versionName, rating, createdAt, modifiedAt',
+      tags: '++id, &name, color',
+      versionTags: '[versionId+tagId], versionId, tagId',
+      notes: '++id, versionId, startTime, createdAt, parentId',
+      images: '++id, versionId, fileName, createdAt',
+      settings: '++id',
+      fileHandles: 'id, name',
+      smartViews: '++id, name',
+      noteTimestamps: '++id, noteId',
+    });
+
+    // Version 10: Reviewers, with a rating per reviewer
+    this.version(10).stores({
+      songs: '++id, name, folderHandle, createdAt, sortPreference',
+      versions: '++id, songId, versionName, rating, createdAt, modifiedAt',
+      tags: '++id, &name, color',
+      versionTags: '[versionId+tagId], versionId, tagId',
+      notes: '++id, versionId, startTime, createdAt, parentId',
+      images: '++id, versionId, fileName, createdAt',
+      settings: '++id',
+      fileHandles: 'id, name',
+      smartViews: '++id, name',
+      noteTimestamps: '++id, noteId',
+      reviewers: '++id, name',
+      versionRatings: '[versionId+reviewerId], versionId, reviewerId',
+    });
+
     // Add cascade delete hooks
     this.versions.hook('deleting', (primKey, obj) => {
       // Delete related versionTags
@@ -266,6 +528,15 @@ export class MusicNotesDB extends Dexie {
       this.notes.where('versionId').equals(obj.id!).delete();
       // Delete related images
       this.images.where('versionId').equals(obj.id!).delete();
+      // Delete reviewers' ratings
+      this.versionRatings.where('versionId').equals(obj.id!).delete();
+    });
+
+    this.notes.hook('deleting', (_primKey, obj) => {
+      // Delete the note's timestamp index
+      this.noteTimestamps.where('noteId').equals(obj.id!).delete();
+      // Delete replies
+      this.notes.where('parentId').equals(obj.id!).delete();
     });
 
     this.songs.hook('deleting', (primKey, obj) => {
@@ -297,15 +568,22 @@ export async function getSongsWithVersions() {
             versionTagRecords.map(vt => db.tags.get(vt.tagId))
           );
 
-          const noteCount = await db.notes
+          const notes = await db.notes
+            .where('versionId')
+            .equals(version.id!)
+            .toArray();
+
+          const ratings = await db.versionRatings
             .where('versionId')
             .equals(version.id!)
-            .count();
+            .toArray();
 
           return {
             ...version,
             tags: tags.filter(Boolean) as Tag[],
-            noteCount,
+            ratings,
+            noteCount: notes.filter((n) => !n.parentId).length, // Replies belong to their note
+            openIssueCount: notes.filter(isOpenIssue).length,
           };
         })
       );
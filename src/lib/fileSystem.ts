@@ -1,4 +1,5 @@
-import { db } from './db';
+import { db, FileHandleRecord, ScanSettings } from './db';
+import { DEFAULT_SCAN_SETTINGS, getAudioExtensions, isExcluded, isIncluded } from './scanSettings';
 
 // Browser compatibility check
 export function isFileSystemAccessSupported(): boolean {
@@ -38,22 +39,154 @@ export async function requestImagesFolderAccess(): Promise<FileSystemDirectoryHa
 }
 
 // Serialize directory handle for storage in IndexedDB
-export async function serializeHandle(handle: FileSystemHandle): Promise<string> {
+// Returns the existing reference ID if this entry was stored before
+export async function serializeHandle(
+  handle: FileSystemHandle,
+  path: string = handle.name
+): Promise<string> {
+  const existingId = await findHandleId(handle, path);
+  if (existingId) return existingId;
+
   // IndexedDB can store FileSystemHandle directly using structured cloning
   // We'll store the handle in a separate object store and return a reference ID
   const handleId = crypto.randomUUID();
 
-  await db.fileHandles.add({ id: handleId, handle });
+  await db.fileHandles.add({
+    id: handleId,
+    handle,
+    name: handle.name,
+    kind: handle.kind,
+    path,
+  });
 
   return handleId;
 }
 
+// Find the stored record pointing at the same file system entry
+export async function findHandleId(
+  handle: FileSystemHandle,
+  path: string = handle.name
+): Promise<string | null> {
+  const candidates = (await db.fileHandles.where('name').equals(handle.name).toArray())
+    .filter((record) => record.kind === handle.kind)
+    // Records with a matching relative path are the likeliest hit, check them first
+    .sort((a, b) => Number(b.path === path) - Number(a.path === path));
+
+  for (const record of candidates) {
+    try {
+      if (await handle.isSameEntry(record.handle)) {
+        return record.id;
+      }
+    } catch (err) {
+      console.warn(`Could not compare handle ${record.id}:`, err);
+    }
+  }
+
+  return null;
+}
+
 // Deserialize handle from IndexedDB
 export async function deserializeHandle(handleId: string): Promise<FileSystemHandle | null> {
   const record = await db.fileHandles.get(handleId);
   return record?.handle || null;
 }
 
+// One-off cleanup: collapse duplicate handle records and drop unreferenced ones.
+// Earlier builds minted a new record on every serializeHandle call.
+export async function cleanupFileHandles(): Promise<void> {
+  const settings = await db.settings.get(1);
+  if (settings?.fileHandlesCleanedUp) return;
+
+  const records = await db.fileHandles.toArray();
+
+  // Group by kind and name, then use isSameEntry to find true duplicates
+  const groups = new Map<string, FileHandleRecord[]>();
+  for (const record of records) {
+    const key = `${record.handle.kind}:${record.handle.name}`;
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(record);
+  }
+
+  const canonicalIds = new Map<string, string>(); // duplicate ID -> kept ID
+  for (const group of groups.values()) {
+    const kept: FileHandleRecord[] = [];
+    for (const record of group) {
+      let match: FileHandleRecord | undefined;
+      for (const candidate of kept) {
+        try {
+          if (await record.handle.isSameEntry(candidate.handle)) {
+            match = candidate;
+            break;
+          }
+        } catch (err) {
+          console.warn(`Could not compare handle ${record.id}:`, err);
+        }
+      }
+
+      if (match) {
+        canonicalIds.set(record.id, match.id);
+      } else {
+        kept.push(record);
+      }
+    }
+  }
+
+  const resolve = (id: string) => canonicalIds.get(id) ?? id;
+
+  await db.transaction('rw', db.songs, db.versions, db.settings, db.fileHandles, async () => {
+    const referenced = new Set<string>();
+
+    await db.songs.toCollection().modify((song) => {
+      song.folderHandle = resolve(song.folderHandle);
+      referenced.add(song.folderHandle);
+    });
+
+    await db.versions.toCollection().modify((version) => {
+      const selectedHandle = version.formats[version.selectedFormatIndex]?.fileHandle;
+      const seen = new Set<string>();
+
+      // Remap and drop formats that now point at the same file twice
+      version.formats = version.formats
+        .map((format) => ({ ...format, fileHandle: resolve(format.fileHandle) }))
+        .filter((format) => {
+          if (seen.has(format.fileHandle)) return false;
+          seen.add(format.fileHandle);
+          referenced.add(format.fileHandle);
+          return true;
+        });
+
+      const selectedIndex = selectedHandle
+        ? version.formats.findIndex((f) => f.fileHandle === resolve(selectedHandle))
+        : -1;
+      version.selectedFormatIndex = Math.max(selectedIndex, 0);
+    });
+
+    const currentSettings = await db.settings.get(1);
+    const imagesFolderHandle = currentSettings?.imagesFolderHandle
+      ? resolve(currentSettings.imagesFolderHandle)
+      : null;
+    if (imagesFolderHandle) {
+      referenced.add(imagesFolderHandle);
+    }
+
+    const unused = records
+      .map((record) => record.id)
+      .filter((id) => !referenced.has(id));
+    await db.fileHandles.bulkDelete(unused);
+
+    console.log(`File handle cleanup: ${canonicalIds.size} duplicates merged, ${unused.length} records removed`);
+
+    await db.settings.put({
+      ...currentSettings,
+      id: 1,
+      imagesFolderHandle,
+      fileHandlesCleanedUp: true,
+    });
+  });
+}
+
 // Verify we still have permission to access a handle
 export async function verifyPermission(
   handle: FileSystemHandle,
@@ -85,21 +218,40 @@ export async function getFileSize(fileHandle: FileSystemFileHandle): Promise<num
   return file.size;
 }
 
-// Get all audio files in a directory
+// An audio file found by a scan, with its path inside the scanned folder
+export interface ScannedAudioFile {
+  handle: FileSystemFileHandle;
+  relativePath: string;
+}
+
+// Get all audio files in a directory, descending into subfolders up to settings.maxDepth
 export async function scanDirectoryForAudioFiles(
-  dirHandle: FileSystemDirectoryHandle
-): Promise<FileSystemFileHandle[]> {
-  const AUDIO_EXTENSIONS = ['.mp3', '.wav', '.flac', '.m4a', '.aac', '.ogg', '.wma'];
-  const audioFiles: FileSystemFileHandle[] = [];
+  dirHandle: FileSystemDirectoryHandle,
+  settings: ScanSettings = DEFAULT_SCAN_SETTINGS
+): Promise<ScannedAudioFile[]> {
+  const audioExtensions = getAudioExtensions(settings);
+  const audioFiles: ScannedAudioFile[] = [];
 
-  for await (const entry of dirHandle.values()) {
-    if (entry.kind === 'file') {
-      const ext = entry.name.toLowerCase().slice(entry.name.lastIndexOf('.'));
-      if (AUDIO_EXTENSIONS.includes(ext)) {
-        audioFiles.push(entry as FileSystemFileHandle);
+  const walk = async (folder: FileSystemDirectoryHandle, prefix: string, depth: number) => {
+    for await (const entry of folder.values()) {
+      const relativePath = prefix + entry.name;
+
+      if (entry.kind === 'directory') {
+        if (depth < settings.maxDepth && !isExcluded(relativePath, settings, true)) {
+          await walk(entry as FileSystemDirectoryHandle, `${relativePath}/`, depth + 1);
+        }
+        continue;
       }
+
+      const ext = entry.name.toLowerCase().slice(entry.name.lastIndexOf('.'));
+      if (!audioExtensions.includes(ext)) continue;
+      if (isExcluded(relativePath, settings, false) || !isIncluded(relativePath, settings)) continue;
+
+      audioFiles.push({ handle: entry as FileSystemFileHandle, relativePath });
     }
-  }
+  };
+
+  await walk(dirHandle, '', 0);
 
   return audioFiles;
 }
@@ -0,0 +1,64 @@
+import { db, FormatPolicy, Song } from './db';
+import { DEFAULT_FORMAT_POLICY, getFormatPolicy, selectFormat } from './formatUtils';
+
+// The policy every song follows unless it has its own
+export async function getGlobalFormatPolicy(): Promise<FormatPolicy> {
+  const settings = await db.settings.get(1);
+  return { ...DEFAULT_FORMAT_POLICY, ...settings?.formatPolicy };
+}
+
+export async function saveGlobalFormatPolicy(formatPolicy: FormatPolicy): Promise<void> {
+  const settings = await db.settings.get(1);
+  await db.settings.put({
+    imagesFolderHandle: null,
+    ...settings,
+    id: 1,
+    formatPolicy,
+  });
+}
+
+// The policy that applies to a song, its own override or the global one
+export async function loadFormatPolicy(song: Pick<Song, 'formatPolicy'>): Promise<FormatPolicy> {
+  if (song.formatPolicy) return getFormatPolicy(song);
+  return await getGlobalFormatPolicy();
+}
+
+// Re-pick the default format of every version the user hasn't chosen by hand
+// Runs for one song, or for all songs when the global policy changes; returns versions changed
+export async function applyFormatPolicy(songId?: number): Promise<number> {
+  const songs = songId !== undefined
+    ? [await db.songs.get(songId)].filter((s): s is Song => !!s)
+    : await db.songs.toArray();
+  let changed = 0;
+
+  for (const song of songs) {
+    const policy = await loadFormatPolicy(song);
+    const versions = await db.versions.where('songId').equals(song.id!).toArray();
+
+    for (const version of versions) {
+      if (version.formatSelectionManual) continue;
+
+      const selectedFormatIndex = selectFormat(version.formats, policy);
+      if (selectedFormatIndex === version.selectedFormatIndex) continue;
+
+      await db.versions.update(version.id!, { selectedFormatIndex });
+      changed++;
+    }
+  }
+
+  return changed;
+}
+
+// Drop a manual format choice and go back to the policy, returns the new selection
+export async function resetFormatSelection(versionId: number): Promise<number> {
+  const version = await db.versions.get(versionId);
+  if (!version) {
+    throw new Error(`Version ${versionId} not found`);
+  }
+
+  const song = await db.songs.get(version.songId);
+  const selectedFormatIndex = selectFormat(version.formats, await loadFormatPolicy(song || {}));
+
+  await db.versions.update(versionId, { selectedFormatIndex, formatSelectionManual: false });
+  return selectedFormatIndex;
+}
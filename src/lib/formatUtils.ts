@@ -1,4 +1,30 @@
-import { VersionFormat } from './db';
+import { VersionFormat, GroupingRules, FormatPolicy, Song } from './db';
+
+/**
+ * Default rules group only files whose names match apart from the extension
+ */
+export const DEFAULT_GROUPING_RULES: GroupingRules = {
+  stripSuffixes: [],
+  pattern: null,
+  ignoreAudioSpecs: false,
+};
+
+// Separators that may surround a token in a file name
+const TOKEN_START = '(^|[\\s_.\\-()\\[\\]])';
+const TOKEN_END = '(?=$|[\\s_.\\-()\\[\\]])';
+
+// Bit-depth and sample-rate tokens: 24bit, 24-bit, 32f, 32float, 44.1k, 48kHz, 96k
+const AUDIO_SPEC_TOKENS = new RegExp(
+  `${TOKEN_START}(?:(?:16|24|32)[\\s_-]?(?:bits?|b)|32[\\s_-]?f(?:loat)?|(?:44[.,]?1|48|88[.,]?2|96|176[.,]?4|192)[\\s_-]?k(?:hz)?)${TOKEN_END}`,
+  'gi'
+);
+
+/**
+ * Format a loudness or peak value with one decimal, e.g. "-9.8 LUFS"
+ */
+export function formatLoudness(value: number | null | undefined, unit: string): string {
+  return value == null ? '-' : `${value.toFixed(1)} ${unit}`;
+}
 
 /**
  * Format file size in bytes to human-readable string
@@ -10,52 +36,156 @@ export function formatFileSize(bytes: number): string {
     : `${mb.toFixed(1)} MB`;
 }
 
+/**
+ * Format a sample rate in kHz, e.g. "44.1 kHz"
+ */
+export function formatSampleRate(sampleRate: number): string {
+  return `${+(sampleRate / 1000).toFixed(2)} kHz`;
+}
+
+/**
+ * Format a channel count, e.g. "stereo" or "6 ch"
+ */
+export function formatChannels(channels: number): string {
+  if (channels === 1) return 'mono';
+  if (channels === 2) return 'stereo';
+  return `${channels} ch`;
+}
+
+/**
+ * Describe the technical details of a format, e.g. "24-bit / 48 kHz stereo"
+ * Returns an empty string for formats scanned before these were recorded
+ */
+export function formatAudioSpec(format: VersionFormat): string {
+  const resolution = [
+    format.bitDepth ? `${format.bitDepth}-bit` : null,
+    format.sampleRate ? formatSampleRate(format.sampleRate) : null,
+  ].filter(Boolean).join(' / ');
+
+  return [resolution, format.channels ? formatChannels(format.channels) : null].filter(Boolean).join(' ');
+}
+
 /**
  * Create a formatted label for a version format
- * Example: "FLAC (24.5 MB, 1411 kbps)"
+ * Example: "WAV 24-bit / 48 kHz stereo (24.5 MB, 2304 kbps)"
  */
 export function formatFormatLabel(format: VersionFormat): string {
   const size = formatFileSize(format.fileSize);
-  return `${format.format.toUpperCase()} (${size}, ${format.bitrate || '?'} kbps)`;
+  const name = [format.format.toUpperCase(), formatAudioSpec(format)].filter(Boolean).join(' ');
+  const label = `${name} (${size}, ${format.bitrate || '?'} kbps)`;
+  return format.missing ? `${label} - missing` : label;
+}
+
+/**
+ * Defaults keep the original behaviour: the smallest file plays
+ */
+export const DEFAULT_FORMAT_POLICY: FormatPolicy = {
+  mode: 'smallest',
+  order: [],
+};
+
+// Containers that are lossless even when an older scan didn't record the flag
+const LOSSLESS_EXTENSIONS = ['wav', 'flac', 'aif', 'aiff', 'alac'];
+
+/**
+ * Resolve the format policy for a song: its own override, else the global one
+ */
+export function getFormatPolicy(song: Pick<Song, 'formatPolicy'>, globalPolicy?: FormatPolicy): FormatPolicy {
+  return { ...DEFAULT_FORMAT_POLICY, ...(song.formatPolicy ?? globalPolicy) };
 }
 
 /**
- * Check if formats have mismatched durations (>5% variance)
- * Returns true if there's significant duration mismatch
+ * Parse a preferred format order typed as "wav > flac > mp3" or "wav, flac, mp3"
  */
-export function checkDurationMismatch(formats: VersionFormat[]): boolean {
-  if (formats.length < 2) return false;
+export function parseFormatOrder(text: string): string[] {
+  return text
+    .split(/[>,\s]+/)
+    .map(entry => entry.trim().toLowerCase().replace(/^\./, ''))
+    .filter(Boolean);
+}
+
+// Index of the best format by a comparison, skipping missing formats unless every format is missing
+function findBestFormat(formats: VersionFormat[], isBetter: (a: VersionFormat, b: VersionFormat) => boolean): number {
+  if (formats.length === 0) return 0;
 
-  const durations = formats
-    .map(f => f.duration)
-    .filter(d => d !== null) as number[];
+  const available = formats.some(f => !f.missing);
+
+  let bestIndex = -1;
+  for (let i = 0; i < formats.length; i++) {
+    if (available && formats[i].missing) continue;
+    if (bestIndex < 0 || isBetter(formats[i], formats[bestIndex])) {
+      bestIndex = i;
+    }
+  }
 
-  if (durations.length < 2) return false;
+  return Math.max(bestIndex, 0);
+}
 
-  const max = Math.max(...durations);
-  const min = Math.min(...durations);
-  const variance = (max - min) / max;
+function isLossless(format: VersionFormat): boolean {
+  return format.lossless ?? LOSSLESS_EXTENSIONS.includes(getFormatExtension(format));
+}
 
-  return variance > 0.05; // >5% difference
+function getFormatExtension(format: VersionFormat): string {
+  return format.fileName.slice(format.fileName.lastIndexOf('.') + 1).toLowerCase();
 }
 
 /**
  * Find the index of the smallest format by file size
+ * Missing formats are only picked when every format is missing
  */
 export function findSmallestFormat(formats: VersionFormat[]): number {
-  if (formats.length === 0) return 0;
+  return findBestFormat(formats, (a, b) => a.fileSize < b.fileSize);
+}
 
-  let smallestIndex = 0;
-  let smallestSize = formats[0].fileSize;
+/**
+ * Find the index of the highest quality format
+ * Lossless beats lossy, then the higher bitrate wins, then the larger file
+ */
+export function findHighestQualityFormat(formats: VersionFormat[]): number {
+  return findBestFormat(formats, (a, b) => {
+    if (isLossless(a) !== isLossless(b)) return isLossless(a);
+    if ((a.bitrate ?? 0) !== (b.bitrate ?? 0)) return (a.bitrate ?? 0) > (b.bitrate ?? 0);
+    return a.fileSize > b.fileSize;
+  });
+}
 
-  for (let i = 1; i < formats.length; i++) {
-    if (formats[i].fileSize < smallestSize) {
-      smallestSize = formats[i].fileSize;
-      smallestIndex = i;
-    }
+/**
+ * Find the index of the format that comes first in a preferred order
+ * Entries match the file extension or the container, e.g. ["wav", "flac", "mp3"]
+ * Formats not in the list rank last, ties go to the smallest file
+ */
+export function findPreferredFormat(formats: VersionFormat[], order: string[]): number {
+  const rank = (format: VersionFormat) => {
+    const index = order.findIndex(entry =>
+      entry === getFormatExtension(format) || entry === format.format.toLowerCase()
+    );
+    return index < 0 ? order.length : index;
+  };
+
+  return findBestFormat(formats, (a, b) =>
+    rank(a) !== rank(b) ? rank(a) < rank(b) : a.fileSize < b.fileSize
+  );
+}
+
+/**
+ * Pick the default format of a version according to a policy
+ */
+export function selectFormat(formats: VersionFormat[], policy: FormatPolicy = DEFAULT_FORMAT_POLICY): number {
+  switch (policy.mode) {
+    case 'quality':
+      return findHighestQualityFormat(formats);
+    case 'order':
+      return findPreferredFormat(formats, policy.order);
+    default:
+      return findSmallestFormat(formats);
   }
+}
 
-  return smallestIndex;
+/**
+ * Count formats that were not found on the last rescan
+ */
+export function countMissingFormats(formats: VersionFormat[]): number {
+  return formats.filter(f => f.missing).length;
 }
 
 /**
@@ -66,3 +196,75 @@ export function getBaseFileName(fileName: string): string {
   const lastDot = fileName.lastIndexOf('.');
   return lastDot > 0 ? fileName.substring(0, lastDot) : fileName;
 }
+
+/**
+ * Resolve a song's grouping rules, filling in defaults for older records
+ */
+export function getGroupingRules(song: Pick<Song, 'groupingRules'>): GroupingRules {
+  return { ...DEFAULT_GROUPING_RULES, ...song.groupingRules };
+}
+
+/**
+ * Compute the version key a file is grouped under
+ * Example with ignoreAudioSpecs: "song_v2_24bit.flac" → "song_v2"
+ * Example with stripSuffixes ["(master)"]: "Mix v3 (master).mp3" → "Mix v3"
+ */
+export function getVersionKey(fileName: string, rules: GroupingRules = DEFAULT_GROUPING_RULES): string {
+  let key = getBaseFileName(fileName);
+
+  if (rules.pattern) {
+    try {
+      const match = new RegExp(rules.pattern, 'i').exec(key);
+      if (match) {
+        key = match.groups?.version ?? match[1] ?? match[0];
+      }
+    } catch (error) {
+      console.warn(`Invalid grouping pattern "${rules.pattern}":`, error);
+    }
+  }
+
+  if (rules.ignoreAudioSpecs) {
+    key = key.replace(AUDIO_SPEC_TOKENS, '$1');
+  }
+
+  // Strip suffixes repeatedly so "Mix (master)_24bit" loses both
+  const suffixes = rules.stripSuffixes.filter(s => s.trim()).map(suffixToRegExp);
+  let previous: string;
+  do {
+    previous = key;
+    for (const suffix of suffixes) {
+      key = stripSuffix(key, suffix);
+    }
+  } while (key !== previous && key.length > 0);
+
+  key = tidyVersionKey(key);
+
+  // Never collapse a name to nothing
+  return key || getBaseFileName(fileName);
+}
+
+function suffixToRegExp(suffix: string): RegExp {
+  const source = suffix
+    .trim()
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+// Remove the shortest matching suffix so wildcards never swallow the whole name
+function stripSuffix(key: string, suffix: RegExp): string {
+  for (let start = key.length - 1; start > 0; start--) {
+    if (suffix.test(key.slice(start))) {
+      return key.slice(0, start).replace(/[\s_-]+$/, '');
+    }
+  }
+  return key;
+}
+
+function tidyVersionKey(key: string): string {
+  return key
+    .replace(/\(\s*\)|\[\s*\]/g, '')   // Brackets emptied by token removal
+    .replace(/([\s_-])[\s_-]+/g, '$1') // Doubled separators
+    .replace(/^[\s_.-]+|[\s_.-]+$/g, '');
+}
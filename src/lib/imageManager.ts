@@ -19,7 +19,7 @@ export async function initializeImagesFolder(): Promise<FileSystemDirectoryHandl
 
   // Save to settings
   const handleId = await serializeHandle(handle);
-  await db.settings.put({ id: 1, imagesFolderHandle: handleId });
+  await db.settings.put({ ...settings, id: 1, imagesFolderHandle: handleId });
 
   return handle;
 }
@@ -28,7 +28,8 @@ export async function initializeImagesFolder(): Promise<FileSystemDirectoryHandl
 export async function addImage(
   versionId: number,
   sourceFile: File,
-  caption: string | null
+  caption: string | null,
+  timestamp: number | null = null
 ): Promise<void> {
   const imagesFolder = await initializeImagesFolder();
   if (!imagesFolder) {
@@ -36,8 +37,7 @@ export async function addImage(
   }
 
   // Create unique filename
-  const timestamp = Date.now();
-  const fileName = `${timestamp}_${sourceFile.name}`;
+  const fileName = `${Date.now()}_${sourceFile.name}`;
 
   // Write file to images folder
   const fileHandle = await imagesFolder.getFileHandle(fileName, { create: true });
@@ -50,6 +50,8 @@ export async function addImage(
     versionId,
     fileName,
     caption,
+    timestamp,
+    endTime: null,
     createdAt: new Date().toISOString(),
   });
 }
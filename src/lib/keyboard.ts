@@ -0,0 +1,5 @@
+// Keyboard shortcuts shouldn't fire while typing a note, caption or setting
+export function isTypingTarget(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  return !!element && (element.isContentEditable || element.tagName === 'INPUT' || element.tagName === 'TEXTAREA');
+}
@@ -0,0 +1,225 @@
+import { LoudnessStats } from './db';
+
+// Loudness measurement after ITU-R BS.1770-4 / EBU R 128, runs on plain PCM so it can live in a worker
+
+const BLOCK_SEGMENTS = 4;       // 400 ms momentary blocks, 75% overlap
+const SHORT_TERM_SEGMENTS = 30; // 3 s short-term windows
+const ABSOLUTE_GATE = -70;      // LUFS
+const RELATIVE_GATE = -10;      // LU below the absolute-gated loudness
+const RANGE_RELATIVE_GATE = -20; // LU, for loudness range
+const OVERSAMPLING = 4;         // For true peak
+const INTERPOLATION_TAPS = 12;  // Per phase
+
+// Stats plus the loudness of every 100 ms segment, the envelope doubles as a cheap fingerprint
+export interface LoudnessMeasurement {
+  stats: LoudnessStats;
+  envelope: number[]; // LUFS per 100 ms, floored at the absolute gate
+}
+
+// Biquad coefficients, a0 normalised to 1
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+// K-weighting: a high shelf for the head, then a high pass (coefficients as in libebur128)
+function getKWeightingFilters(sampleRate: number): Biquad[] {
+  let f0 = 1681.974450955533;
+  const G = 3.999843853973347;
+  let Q = 0.7071752369554196;
+
+  let K = Math.tan((Math.PI * f0) / sampleRate);
+  const Vh = Math.pow(10, G / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+
+  const shelf: Biquad = {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  f0 = 38.13547087602444;
+  Q = 0.5003270373238773;
+  K = Math.tan((Math.PI * f0) / sampleRate);
+  a0 = 1 + K / Q + K * K;
+
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  return [shelf, highPass];
+}
+
+// Channel weights by position; the LFE of a 5.1 file is left out
+function getChannelWeights(channelCount: number): number[] {
+  if (channelCount === 6) return [1, 1, 1, 0, 1.41, 1.41];
+  return new Array(channelCount).fill(1);
+}
+
+function toLoudness(meanPower: number): number {
+  return -0.691 + 10 * Math.log10(meanPower);
+}
+
+function toDecibels(amplitude: number): number {
+  return amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity;
+}
+
+// Weighted sum of squares of K-filtered samples for every 100 ms segment
+function getSegmentPowers(channels: Float32Array[], sampleRate: number, segmentLength: number): Float64Array {
+  const segmentCount = Math.floor(channels[0].length / segmentLength);
+  const powers = new Float64Array(segmentCount);
+  const filters = getKWeightingFilters(sampleRate);
+  const weights = getChannelWeights(channels.length);
+
+  channels.forEach((data, channel) => {
+    const weight = weights[channel];
+    if (!weight) return;
+
+    // Direct form I state per filter stage
+    const state = filters.map(() => ({ x1: 0, x2: 0, y1: 0, y2: 0 }));
+
+    for (let i = 0; i < segmentCount * segmentLength; i++) {
+      let sample = data[i];
+      for (let stage = 0; stage < filters.length; stage++) {
+        const f = filters[stage];
+        const s = state[stage];
+        const y = f.b0 * sample + f.b1 * s.x1 + f.b2 * s.x2 - f.a1 * s.y1 - f.a2 * s.y2;
+        s.x2 = s.x1;
+        s.x1 = sample;
+        s.y2 = s.y1;
+        s.y1 = y;
+        sample = y;
+      }
+      powers[Math.floor(i / segmentLength)] += weight * sample * sample;
+    }
+  });
+
+  return powers;
+}
+
+// Loudness of every window of the given number of segments, stepping one segment at a time
+function getWindowLoudness(powers: Float64Array, windowSegments: number, segmentLength: number): number[] {
+  const loudness: number[] = [];
+  let sum = 0;
+
+  for (let i = 0; i < powers.length; i++) {
+    sum += powers[i];
+    if (i >= windowSegments) sum -= powers[i - windowSegments];
+    if (i >= windowSegments - 1) {
+      loudness.push(toLoudness(Math.max(sum, 0) / (windowSegments * segmentLength)));
+    }
+  }
+
+  return loudness;
+}
+
+// Loudness of the mean power of a set of blocks
+function getGatedLoudness(blocks: number[]): number {
+  const meanPower = blocks.reduce((sum, l) => sum + Math.pow(10, (l + 0.691) / 10), 0) / blocks.length;
+  return toLoudness(meanPower);
+}
+
+function getIntegratedLoudness(blocks: number[]): number | null {
+  const aboveAbsolute = blocks.filter((l) => l > ABSOLUTE_GATE);
+  if (aboveAbsolute.length === 0) return null;
+
+  const relativeGate = getGatedLoudness(aboveAbsolute) + RELATIVE_GATE;
+  const gated = aboveAbsolute.filter((l) => l > relativeGate);
+  return gated.length > 0 ? getGatedLoudness(gated) : null;
+}
+
+// Spread between the 10th and 95th percentile of gated short-term loudness (EBU Tech 3342)
+function getLoudnessRange(shortTerm: number[]): number | null {
+  const aboveAbsolute = shortTerm.filter((l) => l > ABSOLUTE_GATE);
+  if (aboveAbsolute.length === 0) return null;
+
+  const relativeGate = getGatedLoudness(aboveAbsolute) + RANGE_RELATIVE_GATE;
+  const gated = aboveAbsolute.filter((l) => l > relativeGate).sort((a, b) => a - b);
+  if (gated.length === 0) return null;
+
+  const percentile = (p: number) => gated[Math.min(gated.length - 1, Math.round((gated.length - 1) * p))];
+  return percentile(0.95) - percentile(0.1);
+}
+
+// Windowed-sinc interpolation coefficients for each in-between phase
+function getInterpolationPhases(): number[][] {
+  const half = INTERPOLATION_TAPS / 2;
+  const phases: number[][] = [];
+
+  for (let phase = 1; phase < OVERSAMPLING; phase++) {
+    const fraction = phase / OVERSAMPLING;
+    const taps: number[] = [];
+    for (let k = -half + 1; k <= half; k++) {
+      const t = k - fraction;
+      const sinc = Math.sin(Math.PI * t) / (Math.PI * t);
+      const window = 0.5 * (1 + Math.cos((Math.PI * t) / (half + 0.5)));
+      taps.push(sinc * window);
+    }
+    phases.push(taps);
+  }
+
+  return phases;
+}
+
+// Highest absolute sample, and highest after 4x oversampling
+function getPeaks(channels: Float32Array[]): { samplePeak: number; truePeak: number } {
+  const phases = getInterpolationPhases();
+  const half = INTERPOLATION_TAPS / 2;
+  let samplePeak = 0;
+  let truePeak = 0;
+
+  for (const data of channels) {
+    for (let i = 0; i < data.length; i++) {
+      const sample = Math.abs(data[i]);
+      if (sample > samplePeak) samplePeak = sample;
+
+      // Interpolate between sample i and i + 1
+      if (i < half - 1 || i + half >= data.length) continue;
+      for (const taps of phases) {
+        let value = 0;
+        for (let k = 0; k < taps.length; k++) {
+          value += data[i - half + 1 + k] * taps[k];
+        }
+        value = Math.abs(value);
+        if (value > truePeak) truePeak = value;
+      }
+    }
+  }
+
+  return { samplePeak, truePeak: Math.max(truePeak, samplePeak) };
+}
+
+// Measure integrated loudness, max short-term loudness, loudness range and peaks of decoded audio
+export function measureLoudness(channels: Float32Array[], sampleRate: number): LoudnessMeasurement {
+  const segmentLength = Math.round(sampleRate / 10);
+  const powers = getSegmentPowers(channels, sampleRate, segmentLength);
+
+  const blocks = getWindowLoudness(powers, BLOCK_SEGMENTS, segmentLength);
+  const shortTerm = getWindowLoudness(powers, SHORT_TERM_SEGMENTS, segmentLength);
+  const { samplePeak, truePeak } = getPeaks(channels);
+
+  const round = (value: number | null) => (value === null || !Number.isFinite(value) ? null : Math.round(value * 10) / 10);
+
+  return {
+    stats: {
+      integrated: round(getIntegratedLoudness(blocks)),
+      shortTermMax: round(shortTerm.length > 0 ? Math.max(...shortTerm) : null),
+      range: round(getLoudnessRange(shortTerm)),
+      samplePeak: round(toDecibels(samplePeak)),
+      truePeak: round(toDecibels(truePeak)),
+    },
+    envelope: Array.from(powers, (power) =>
+      Math.round(Math.max(toLoudness(power / segmentLength), ABSOLUTE_GATE) * 10) / 10
+    ),
+  };
+}
@@ -0,0 +1,10 @@
+import { measureLoudness } from './loudness';
+
+// Measures decoded PCM off the main thread: { channels: Float32Array[], sampleRate } in, { stats, envelope } out
+self.onmessage = (e: MessageEvent<{ channels: Float32Array[]; sampleRate: number }>) => {
+  try {
+    self.postMessage(measureLoudness(e.data.channels, e.data.sampleRate));
+  } catch (error) {
+    self.postMessage({ error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,112 @@
+import { parseBlob } from 'music-metadata';
+import { db, LoudnessStats } from './db';
+import { deserializeHandle } from './fileSystem';
+import { LoudnessMeasurement } from './loudness';
+
+// Analyses run one at a time, a decoded file can take hundreds of MB
+let queue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task, task);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+// Decode a file at its own sample rate and measure it in a worker
+export async function analyzeFile(file: File): Promise<LoudnessMeasurement> {
+  // decodeAudioData resamples to the context's rate, so the context has to match the file
+  const metadata = await parseBlob(file, { skipCovers: true }).catch(() => null);
+  const sampleRate = metadata?.format.sampleRate || 48000;
+  const channelCount = metadata?.format.numberOfChannels || 2;
+
+  const context = new OfflineAudioContext(channelCount, 1, sampleRate);
+  const buffer = await context.decodeAudioData(await file.arrayBuffer());
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+
+  return await measureInWorker(channels, buffer.sampleRate);
+}
+
+function measureInWorker(channels: Float32Array[], sampleRate: number): Promise<LoudnessMeasurement> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./loudness.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (e: MessageEvent<Partial<LoudnessMeasurement> & { error?: string }>) => {
+      worker.terminate();
+      if (e.data.stats && e.data.envelope) {
+        resolve({ stats: e.data.stats, envelope: e.data.envelope });
+      } else {
+        reject(new Error(e.data.error || 'Loudness analysis failed'));
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message));
+    };
+
+    worker.postMessage({ channels, sampleRate });
+  });
+}
+
+// Analyse one format of a version and cache the result, and its loudness envelope, on it
+export function analyzeFormatLoudness(versionId: number, formatIndex: number): Promise<LoudnessStats | null> {
+  return enqueue(async () => {
+    const version = await db.versions.get(versionId);
+    const format = version?.formats[formatIndex];
+    if (!format || format.missing) return null;
+
+    const fileHandle = await deserializeHandle(format.fileHandle);
+    if (!fileHandle) return null;
+
+    const file = await (fileHandle as FileSystemFileHandle).getFile();
+    const { stats: loudness, envelope } = await analyzeFile(file);
+
+    // Re-read in case the version changed while decoding
+    const current = await db.versions.get(versionId);
+    if (!current) return loudness;
+
+    await db.versions.update(versionId, {
+      formats: current.formats.map((f) => (f.fileHandle === format.fileHandle ? { ...f, loudness, envelope } : f)),
+    });
+
+    return loudness;
+  });
+}
+
+// Analyse the selected format of every version of a song that hasn't been measured yet
+export async function analyzeSongLoudness(songId: number): Promise<number> {
+  const versions = await db.versions.where('songId').equals(songId).toArray();
+  let analyzed = 0;
+
+  for (const version of versions) {
+    const format = version.formats[version.selectedFormatIndex];
+    if (!format || format.loudness || format.missing) continue;
+
+    try {
+      if (await analyzeFormatLoudness(version.id!, version.selectedFormatIndex)) analyzed++;
+    } catch (error) {
+      console.warn(`Could not analyse ${format.fileName}:`, error);
+    }
+  }
+
+  return analyzed;
+}
+
+// Analyse every format of a version that has no envelope yet, so their content can be compared
+export async function analyzeVersionFormats(versionId: number): Promise<number> {
+  const version = await db.versions.get(versionId);
+  if (!version) return 0;
+
+  let analyzed = 0;
+  for (let i = 0; i < version.formats.length; i++) {
+    const format = version.formats[i];
+    if (format.envelope || format.missing) continue;
+
+    try {
+      if (await analyzeFormatLoudness(versionId, i)) analyzed++;
+    } catch (error) {
+      console.warn(`Could not analyse ${format.fileName}:`, error);
+    }
+  }
+
+  return analyzed;
+}
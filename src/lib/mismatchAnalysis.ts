@@ -0,0 +1,43 @@
+import { db, MismatchThresholds } from './db';
+import { DEFAULT_MISMATCH_THRESHOLDS, checkDurationMismatch } from './mismatchReport';
+import { analyzeVersionFormats } from './loudnessAnalysis';
+
+// Thresholds the mismatch flag is computed with
+export async function getMismatchThresholds(): Promise<MismatchThresholds> {
+  const settings = await db.settings.get(1);
+  return { ...DEFAULT_MISMATCH_THRESHOLDS, ...settings?.mismatchThresholds };
+}
+
+// Store new thresholds and re-flag every version with them, returns versions whose flag changed
+export async function saveMismatchThresholds(mismatchThresholds: MismatchThresholds): Promise<number> {
+  const settings = await db.settings.get(1);
+  await db.settings.put({
+    imagesFolderHandle: null,
+    ...settings,
+    id: 1,
+    mismatchThresholds,
+  });
+
+  let changed = 0;
+  await db.versions.toCollection().modify((version) => {
+    const hasDurationMismatch = checkDurationMismatch(version.formats, mismatchThresholds);
+    if (hasDurationMismatch !== version.hasDurationMismatch) {
+      version.hasDurationMismatch = hasDurationMismatch;
+      changed++;
+    }
+  });
+
+  return changed;
+}
+
+// Analyse every format of a version so their content can be compared, then update its flag
+export async function analyzeVersionMismatch(versionId: number): Promise<boolean> {
+  await analyzeVersionFormats(versionId);
+
+  const version = await db.versions.get(versionId);
+  if (!version) return false;
+
+  const hasDurationMismatch = checkDurationMismatch(version.formats, await getMismatchThresholds());
+  await db.versions.update(versionId, { hasDurationMismatch });
+  return hasDurationMismatch;
+}
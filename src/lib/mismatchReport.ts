@@ -0,0 +1,162 @@
+import { VersionFormat, MismatchThresholds } from './db';
+import { findHighestQualityFormat, formatSampleRate, formatChannels } from './formatUtils';
+
+export const DEFAULT_MISMATCH_THRESHOLDS: MismatchThresholds = {
+  durationTolerance: 0.05,
+  minCorrelation: 0.9,
+};
+
+export const ENVELOPE_RATE = 10;  // Envelope values per second (100 ms segments)
+const MAX_LAG = 30;        // Segments either way searched for the best alignment, covers pre-roll
+const MIN_OVERLAP = 50;    // Segments two envelopes must share to be compared
+
+// How one format of a version compares with the reference format
+export interface FormatComparison {
+  formatIndex: number;
+  durationDelta: number | null;    // Seconds longer (+) or shorter (-) than the reference
+  durationVariance: number | null; // Delta as a fraction of the longer duration
+  correlation: number | null;      // Envelope correlation with the reference, null until both are analysed
+  alignment: number | null;        // Seconds earlier (+) or later (-) the same content plays than in the reference
+  issues: string[];
+}
+
+export interface MismatchReport {
+  referenceIndex: number;          // Highest quality format, everything is measured against it
+  formats: FormatComparison[];
+  hasMismatch: boolean;
+}
+
+// Best Pearson correlation of two envelopes over shifts of up to maxLag segments, lag is in segments of b against a
+export function correlateEnvelopes(
+  a: number[],
+  b: number[],
+  maxLag = MAX_LAG
+): { correlation: number; lag: number } | null {
+  let best: { correlation: number; lag: number } | null = null;
+
+  for (let lag = -maxLag; lag <= maxLag; lag++) {
+    const start = Math.max(0, lag);
+    const end = Math.min(a.length, b.length + lag);
+    const count = end - start;
+    if (count < MIN_OVERLAP) continue;
+
+    let sumA = 0, sumB = 0;
+    for (let i = start; i < end; i++) {
+      sumA += a[i];
+      sumB += b[i - lag];
+    }
+    const meanA = sumA / count;
+    const meanB = sumB / count;
+
+    let covariance = 0, varianceA = 0, varianceB = 0;
+    for (let i = start; i < end; i++) {
+      const da = a[i] - meanA;
+      const db = b[i - lag] - meanB;
+      covariance += da * db;
+      varianceA += da * da;
+      varianceB += db * db;
+    }
+
+    // A flat envelope (silence) says nothing about the content
+    if (varianceA === 0 || varianceB === 0) continue;
+
+    const correlation = covariance / Math.sqrt(varianceA * varianceB);
+    if (!best || correlation > best.correlation) {
+      best = { correlation, lag };
+    }
+  }
+
+  return best;
+}
+
+function emptyComparison(formatIndex: number): FormatComparison {
+  return {
+    formatIndex,
+    durationDelta: null,
+    durationVariance: null,
+    correlation: null,
+    alignment: null,
+    issues: [],
+  };
+}
+
+function compareFormat(
+  format: VersionFormat,
+  formatIndex: number,
+  reference: VersionFormat,
+  thresholds: MismatchThresholds
+): FormatComparison {
+  const comparison = emptyComparison(formatIndex);
+
+  if (format.duration != null && reference.duration != null) {
+    const delta = format.duration - reference.duration;
+    comparison.durationDelta = delta;
+    comparison.durationVariance = Math.abs(delta) / Math.max(format.duration, reference.duration);
+    if (comparison.durationVariance > thresholds.durationTolerance) {
+      const percent = Math.round(comparison.durationVariance * 100);
+      comparison.issues.push(`${Math.abs(delta).toFixed(1)} s ${delta > 0 ? 'longer' : 'shorter'} (${percent}%)`);
+    }
+  }
+
+  if (format.sampleRate && reference.sampleRate && format.sampleRate !== reference.sampleRate) {
+    comparison.issues.push(`${formatSampleRate(format.sampleRate)} instead of ${formatSampleRate(reference.sampleRate)}`);
+  }
+
+  if (format.channels && reference.channels && format.channels !== reference.channels) {
+    comparison.issues.push(`${formatChannels(format.channels)} instead of ${formatChannels(reference.channels)}`);
+  }
+
+  if (format.envelope && reference.envelope) {
+    const match = correlateEnvelopes(reference.envelope, format.envelope);
+    if (match) {
+      comparison.correlation = Math.round(match.correlation * 100) / 100;
+      comparison.alignment = match.lag / ENVELOPE_RATE;
+      if (match.correlation < thresholds.minCorrelation) {
+        comparison.issues.push(`probably a different mix (correlation ${comparison.correlation.toFixed(2)})`);
+      }
+    }
+  }
+
+  return comparison;
+}
+
+// Compare every format of a version with its highest quality format
+// Missing formats are listed without measurements
+export function buildMismatchReport(
+  formats: VersionFormat[],
+  thresholds: MismatchThresholds = DEFAULT_MISMATCH_THRESHOLDS
+): MismatchReport {
+  const referenceIndex = findHighestQualityFormat(formats);
+  const reference = formats[referenceIndex];
+
+  const comparisons = formats.map((format, index) => {
+    if (index === referenceIndex || format.missing || !reference || reference.missing) {
+      return emptyComparison(index);
+    }
+    return compareFormat(format, index, reference, thresholds);
+  });
+
+  return {
+    referenceIndex,
+    formats: comparisons,
+    hasMismatch: comparisons.some((c) => c.issues.length > 0),
+  };
+}
+
+// One line per mismatched format, e.g. "Mix v3.mp3: 12.0 s shorter (4%)"
+export function getFormatMismatches(
+  formats: VersionFormat[],
+  thresholds: MismatchThresholds = DEFAULT_MISMATCH_THRESHOLDS
+): string[] {
+  return buildMismatchReport(formats, thresholds).formats
+    .filter((c) => c.issues.length > 0)
+    .map((c) => `${formats[c.formatIndex].fileName}: ${c.issues.join(', ')}`);
+}
+
+// Whether the formats disagree on duration, sample rate, channels or content
+export function checkDurationMismatch(
+  formats: VersionFormat[],
+  thresholds: MismatchThresholds = DEFAULT_MISMATCH_THRESHOLDS
+): boolean {
+  return buildMismatchReport(formats, thresholds).hasMismatch;
+}
@@ -0,0 +1,53 @@
+import { TIMESTAMP_CLASS } from './timestamps';
+
+// Note content is HTML rendered as-is, so HTML from outside this browser (e.g. a teammate's
+// backup) is cut down to what the notes editor produces before it's stored.
+
+// Elements the editor writes, with the attributes each may keep
+const ALLOWED_ELEMENTS: Record<string, string[]> = {
+  P: [], BR: [], HR: [],
+  STRONG: [], B: [], EM: [], I: [], S: [], CODE: [], PRE: [], BLOCKQUOTE: [],
+  UL: [], OL: ['start'], LI: [],
+  H1: [], H2: [], H3: [], H4: [], H5: [], H6: [],
+  SPAN: ['data-timestamp', 'data-end'], // Timestamp chips only
+};
+
+// Dropped along with everything inside them, anything else unknown is unwrapped to its contents
+const DROPPED_ELEMENTS = new Set(['SCRIPT', 'STYLE', 'IFRAME', 'OBJECT', 'EMBED', 'TEMPLATE', 'NOSCRIPT', 'SVG', 'MATH']);
+
+export function sanitizeNoteHtml(html: string): string {
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  sanitizeChildren(body);
+  return body.innerHTML;
+}
+
+function sanitizeChildren(parent: Element): void {
+  for (const node of Array.from(parent.childNodes)) {
+    if (node.nodeType === Node.TEXT_NODE) continue;
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      node.remove();
+      continue;
+    }
+
+    const element = node as Element;
+    const tag = element.tagName.toUpperCase();
+    if (DROPPED_ELEMENTS.has(tag)) {
+      element.remove();
+      continue;
+    }
+
+    sanitizeChildren(element);
+
+    const isChip = tag === 'SPAN' && element.hasAttribute('data-timestamp');
+    const allowed = ALLOWED_ELEMENTS[tag];
+    if (!allowed || (tag === 'SPAN' && !isChip)) {
+      element.replaceWith(...Array.from(element.childNodes));
+      continue;
+    }
+
+    for (const { name } of Array.from(element.attributes)) {
+      if (!allowed.includes(name)) element.removeAttribute(name);
+    }
+    if (isChip) element.setAttribute('class', TIMESTAMP_CLASS);
+  }
+}
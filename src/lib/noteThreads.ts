@@ -0,0 +1,46 @@
+import { Note, NoteStatus } from './db';
+
+// Notes form threads: top-level notes carry the review status, replies hang off them.
+
+export interface NoteThread {
+  note: Note;
+  replies: Note[]; // Oldest first
+}
+
+export const NOTE_STATUS_LABELS: Record<NoteStatus, string> = {
+  open: 'Open',
+  resolved: 'Resolved',
+  wontfix: "Won't fix",
+};
+
+// Replies follow their parent, notes saved before statuses existed count as open
+export function getNoteStatus(note: Note): NoteStatus {
+  return note.status ?? 'open';
+}
+
+export function isOpenIssue(note: Note): boolean {
+  return !note.parentId && getNoteStatus(note) === 'open';
+}
+
+// Group notes into threads, newest thread first
+// Replies whose parent is gone are shown as threads of their own
+export function buildNoteThreads(notes: Note[]): NoteThread[] {
+  const ids = new Set(notes.map((n) => n.id));
+  const threads = new Map<number, NoteThread>();
+
+  for (const note of notes) {
+    if (!note.parentId || !ids.has(note.parentId)) {
+      threads.set(note.id!, { note, replies: [] });
+    }
+  }
+  for (const note of notes) {
+    if (note.parentId && threads.has(note.parentId)) {
+      threads.get(note.parentId)!.replies.push(note);
+    }
+  }
+
+  const byDate = (a: Note, b: Note) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+  return Array.from(threads.values())
+    .map((thread) => ({ ...thread, replies: thread.replies.sort(byDate) }))
+    .sort((a, b) => byDate(b.note, a.note));
+}
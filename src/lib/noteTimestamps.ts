@@ -0,0 +1,45 @@
+import { db, NoteTimestamp } from './db';
+import { extractTimestamps } from './timestamps';
+
+// Index of every timestamp chip in every note, kept in step with note edits.
+// Keyed by note only, so notes moved between versions by merges and splits keep their entries.
+
+// Replace a note's entries with the chips in its current content
+export async function indexNoteTimestamps(noteId: number, content: string): Promise<void> {
+  const timestamps = extractTimestamps(content).map((range, position) => ({
+    noteId,
+    position,
+    start: range.start,
+    end: range.end,
+  }));
+
+  await db.transaction('rw', db.noteTimestamps, async () => {
+    await db.noteTimestamps.where('noteId').equals(noteId).delete();
+    await db.noteTimestamps.bulkAdd(timestamps);
+  });
+}
+
+// Every timestamp in a version's notes, earliest first
+export async function getVersionTimestamps(versionId: number): Promise<NoteTimestamp[]> {
+  const noteIds = await db.notes.where('versionId').equals(versionId).primaryKeys();
+  const timestamps = await db.noteTimestamps.where('noteId').anyOf(noteIds as number[]).toArray();
+  return timestamps.sort((a, b) => a.start - b.start);
+}
+
+// Rebuild the whole index, e.g. after a restore replaced every note
+export async function rebuildNoteTimestamps(): Promise<void> {
+  const notes = await db.notes.toArray();
+  const timestamps = notes.flatMap((note) =>
+    extractTimestamps(note.content).map((range, position) => ({
+      noteId: note.id!,
+      position,
+      start: range.start,
+      end: range.end,
+    }))
+  );
+
+  await db.transaction('rw', db.noteTimestamps, async () => {
+    await db.noteTimestamps.clear();
+    await db.noteTimestamps.bulkAdd(timestamps);
+  });
+}
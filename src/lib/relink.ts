@@ -0,0 +1,149 @@
+import { db, VersionFormat } from './db';
+import { scanDirectoryForAudioFiles, serializeHandle, ScannedAudioFile } from './fileSystem';
+import { selectFormat } from './formatUtils';
+import { checkDurationMismatch } from './mismatchReport';
+import { loadFormatPolicy } from './formatPolicy';
+import { getMismatchThresholds } from './mismatchAnalysis';
+import { getScanSettings } from './scanSettings';
+import { extractAudioMetadata } from './audioScanner';
+
+// Outcome of pointing a song at a new folder, counted per format
+export interface RelinkResult {
+  matched: number;
+  unmatched: number;
+}
+
+// Scores needed before a file is accepted as the new home of a format
+const MIN_MATCH_SCORE = 3;
+const DURATION_TOLERANCE = 0.5; // seconds
+
+// Point a song at a (new) folder and re-attach every format to a file in it
+// Files are matched by path, name or size, duration breaks ties; versions keep all their metadata
+export async function relinkSongFolder(
+  songId: number,
+  dirHandle: FileSystemDirectoryHandle
+): Promise<RelinkResult> {
+  const song = await db.songs.get(songId);
+  if (!song) {
+    throw new Error(`Song ${songId} not found`);
+  }
+
+  const folderHandle = await serializeHandle(dirHandle);
+  await db.songs.update(songId, { folderHandle });
+
+  const audioFiles = await scanDirectoryForAudioFiles(dirHandle, getScanSettings(song));
+  const unclaimed = new Set(audioFiles);
+  const durations = new Map<ScannedAudioFile, number | null>();
+  const files = new Map<ScannedAudioFile, File>();
+  const sizes = new Map<ScannedAudioFile, number>();
+
+  for (const audioFile of audioFiles) {
+    const file = await audioFile.handle.getFile();
+    files.set(audioFile, file);
+    sizes.set(audioFile, file.size);
+  }
+
+  // Durations are expensive, only read them when name and size don't settle it
+  const getDuration = async (audioFile: ScannedAudioFile) => {
+    if (!durations.has(audioFile)) {
+      const metadata = await extractAudioMetadata(files.get(audioFile)!);
+      durations.set(audioFile, metadata.duration);
+    }
+    return durations.get(audioFile)!;
+  };
+
+  const result: RelinkResult = { matched: 0, unmatched: 0 };
+  const versions = await db.versions.where('songId').equals(songId).toArray();
+  const formatPolicy = await loadFormatPolicy(song);
+  const thresholds = await getMismatchThresholds();
+
+  for (const version of versions) {
+    const selectedHandleId = version.formats[version.selectedFormatIndex]?.fileHandle;
+    const formats: VersionFormat[] = [];
+
+    for (const format of version.formats) {
+      const match = await findBestMatch(format, Array.from(unclaimed), sizes, getDuration);
+
+      if (!match) {
+        formats.push({ ...format, missing: true });
+        result.unmatched++;
+        continue;
+      }
+
+      unclaimed.delete(match);
+
+      // Same as a rescan: a different file is read again and measured again, the same one keeps its analysis
+      const file = files.get(match)!;
+      const modifiedAt = new Date(file.lastModified).toISOString();
+      const sameFile = file.size === format.fileSize && modifiedAt === format.modifiedAt;
+      formats.push({
+        ...format,
+        ...(sameFile ? {} : await extractAudioMetadata(file)),
+        fileHandle: await serializeHandle(match.handle, match.relativePath),
+        fileName: match.handle.name,
+        relativePath: match.relativePath,
+        fileSize: file.size,
+        modifiedAt,
+        missing: false,
+        loudness: sameFile ? format.loudness : undefined,
+        envelope: sameFile ? format.envelope : undefined,
+      });
+      result.matched++;
+    }
+
+    // Keep a hand-picked format unless it wasn't found, otherwise follow the policy
+    const previousIndex = version.formats.findIndex((f) => f.fileHandle === selectedHandleId);
+    const keepManual = version.formatSelectionManual && previousIndex >= 0 && !formats[previousIndex].missing;
+    const selectedFormatIndex = keepManual ? previousIndex : selectFormat(formats, formatPolicy);
+
+    await db.versions.update(version.id!, {
+      formats,
+      selectedFormatIndex,
+      formatSelectionManual: keepManual,
+      hasDurationMismatch: checkDurationMismatch(formats, thresholds),
+      modifiedAt: formats[selectedFormatIndex].modifiedAt,
+    });
+  }
+
+  return result;
+}
+
+// Score every candidate file against a format and return the best one above the threshold
+async function findBestMatch(
+  format: VersionFormat,
+  candidates: ScannedAudioFile[],
+  sizes: Map<ScannedAudioFile, number>,
+  getDuration: (audioFile: ScannedAudioFile) => Promise<number | null>
+): Promise<ScannedAudioFile | null> {
+  const extension = getExtension(format.fileName);
+
+  // A file needs its path, name or size to match at all; extension and duration only rank those
+  // Otherwise any file of the same type and length, like a different mix, would be taken
+  const scored = candidates.map((candidate) => {
+    let score = 0;
+    if (format.relativePath && candidate.relativePath === format.relativePath) score += 4;
+    if (candidate.handle.name === format.fileName) score += 3;
+    if (sizes.get(candidate) === format.fileSize) score += 3;
+    if (score > 0 && getExtension(candidate.handle.name) === extension) score += 1;
+    return { candidate, score };
+  });
+
+  // Several files equally likely, e.g. the same name in two subfolders: the one with the right length wins
+  const top = Math.max(0, ...scored.map((s) => s.score));
+  const tied = scored.filter((s) => s.score === top && top >= MIN_MATCH_SCORE);
+  if (format.duration !== null && tied.length > 1) {
+    for (const entry of tied) {
+      const duration = await getDuration(entry.candidate);
+      if (duration !== null && Math.abs(duration - format.duration) <= DURATION_TOLERANCE) {
+        entry.score += 2;
+      }
+    }
+  }
+
+  const best = scored.sort((a, b) => b.score - a.score)[0];
+  return best && best.score >= MIN_MATCH_SCORE ? best.candidate : null;
+}
+
+function getExtension(fileName: string): string {
+  return fileName.slice(fileName.lastIndexOf('.') + 1).toLowerCase();
+}
@@ -0,0 +1,180 @@
+import { db, Reviewer, VersionRating } from './db';
+
+// Local reviewer profiles: each reviewer rates versions separately and notes record who wrote them.
+// Without any reviewers a version has the single rating it always had; once there are reviewers,
+// Version.rating holds the average of their ratings so sorting and filtering keep working.
+
+export const REVIEWER_COLORS = ['#60a5fa', '#f472b6', '#34d399', '#fbbf24', '#a78bfa', '#f87171', '#22d3ee', '#a3e635'];
+
+export interface RatingStats {
+  average: number; // One decimal
+  min: number;
+  max: number;
+  spread: number;  // Highest minus lowest rating
+  count: number;
+}
+
+export function getRatingStats(ratings: Pick<VersionRating, 'rating'>[]): RatingStats | null {
+  if (ratings.length === 0) return null;
+
+  const values = ratings.map((r) => r.rating);
+  const average = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return {
+    average: Math.round(average * 10) / 10,
+    min,
+    max,
+    spread: max - min,
+    count: values.length,
+  };
+}
+
+// "Alex 4, Sam 2" for tooltips, reviewers that are gone are left out
+export function describeRatings(ratings: VersionRating[], reviewers: Reviewer[]): string {
+  return ratings
+    .map((r) => {
+      const reviewer = reviewers.find((rv) => rv.id === r.reviewerId);
+      return reviewer ? `${reviewer.name} ${r.rating}` : null;
+    })
+    .filter(Boolean)
+    .join(', ');
+}
+
+// Short summary next to the stars, e.g. "3.5 (2-5)"
+export function formatRatingStats(stats: RatingStats): string {
+  return stats.spread > 0 ? `${stats.average.toFixed(1)} (${stats.min}-${stats.max})` : stats.average.toFixed(1);
+}
+
+// First color no reviewer uses yet, cycling once they're all taken
+export function pickReviewerColor(reviewers: Reviewer[]): string {
+  const used = new Set(reviewers.map((r) => r.color));
+  return REVIEWER_COLORS.find((c) => !used.has(c)) ?? REVIEWER_COLORS[reviewers.length % REVIEWER_COLORS.length];
+}
+
+export async function getReviewers(): Promise<Reviewer[]> {
+  return await db.reviewers.orderBy('name').toArray();
+}
+
+// Reviewer picked in this browser, null if none is picked or they were deleted
+export async function getCurrentReviewerId(): Promise<number | null> {
+  const settings = await db.settings.get(1);
+  const id = settings?.currentReviewerId ?? null;
+  return id !== null && (await db.reviewers.get(id)) ? id : null;
+}
+
+export async function setCurrentReviewerId(currentReviewerId: number | null): Promise<void> {
+  const settings = await db.settings.get(1);
+  await db.settings.put({
+    imagesFolderHandle: null,
+    ...settings,
+    id: 1,
+    currentReviewerId,
+  });
+}
+
+// The first reviewer takes over the ratings given before there were reviewers
+// Returns the new reviewer's ID
+export async function createReviewer(name: string, color: string): Promise<number> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Reviewer name cannot be empty');
+  }
+
+  return await db.transaction('rw', [db.reviewers, db.versions, db.versionRatings], async () => {
+    const isFirst = (await db.reviewers.count()) === 0;
+    const id = await db.reviewers.add({ name: trimmed, color, createdAt: new Date().toISOString() }) as number;
+
+    if (isFirst) {
+      const rated = await db.versions.filter((v) => v.rating !== null).toArray();
+      await db.versionRatings.bulkPut(rated.map((v) => ({
+        versionId: v.id!,
+        reviewerId: id,
+        rating: Math.round(v.rating!),
+        updatedAt: new Date().toISOString(),
+      })));
+    }
+    return id;
+  });
+}
+
+export async function updateReviewer(reviewerId: number, name: string, color: string): Promise<void> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Reviewer name cannot be empty');
+  }
+  await db.reviewers.update(reviewerId, { name: trimmed, color });
+}
+
+// Their ratings go and the averages they were part of are recomputed
+// Their notes stay, without an author
+// Once the last reviewer is gone ratings are whole stars again, averages are rounded
+export async function deleteReviewer(reviewerId: number): Promise<void> {
+  await db.transaction('rw', [db.reviewers, db.versions, db.versionRatings, db.notes, db.settings], async () => {
+    const versionIds = (await db.versionRatings.where('reviewerId').equals(reviewerId).toArray()).map((r) => r.versionId);
+
+    await db.versionRatings.where('reviewerId').equals(reviewerId).delete();
+    await db.reviewers.delete(reviewerId);
+    await db.notes.filter((n) => n.authorId === reviewerId).modify({ authorId: null });
+
+    for (const versionId of versionIds) {
+      await updateAverageRating(versionId);
+    }
+
+    if ((await db.reviewers.count()) === 0) {
+      await db.versions
+        .filter((v) => v.rating !== null && !Number.isInteger(v.rating))
+        .modify((v) => {
+          v.rating = Math.round(v.rating!);
+        });
+    }
+
+    const settings = await db.settings.get(1);
+    if (settings?.currentReviewerId === reviewerId) {
+      await db.settings.update(1, { currentReviewerId: null });
+    }
+  });
+}
+
+// Store or clear one reviewer's rating and refresh the version's average
+// Returns the version's ratings and the new average
+export async function rateVersion(
+  versionId: number,
+  reviewerId: number,
+  rating: number | null
+): Promise<{ ratings: VersionRating[]; average: number | null }> {
+  return await db.transaction('rw', [db.reviewers, db.versions, db.versionRatings], async () => {
+    if (rating === null) {
+      await db.versionRatings.delete([versionId, reviewerId]);
+    } else {
+      await db.versionRatings.put({ versionId, reviewerId, rating, updatedAt: new Date().toISOString() });
+    }
+
+    const average = await updateAverageRating(versionId);
+    return { ratings: await db.versionRatings.where('versionId').equals(versionId).toArray(), average };
+  });
+}
+
+// Version.rating follows the reviewers' average, left alone while there are no reviewers
+export async function updateAverageRating(versionId: number): Promise<number | null> {
+  const version = await db.versions.get(versionId);
+  if (!version) return null;
+  if ((await db.reviewers.count()) === 0) return version.rating;
+
+  const stats = getRatingStats(await db.versionRatings.where('versionId').equals(versionId).toArray());
+  const average = stats?.average ?? null;
+  await db.versions.update(versionId, { rating: average });
+  return average;
+}
+
+// Give one version another's ratings, e.g. on a merge or split
+// A reviewer who already rated the target keeps their own rating
+export async function copyVersionRatings(fromId: number, toId: number): Promise<void> {
+  const ratings = await db.versionRatings.where('versionId').equals(fromId).toArray();
+  const rated = new Set((await db.versionRatings.where('versionId').equals(toId).toArray()).map((r) => r.reviewerId));
+
+  await db.versionRatings.bulkAdd(
+    ratings.filter((r) => !rated.has(r.reviewerId)).map((r) => ({ ...r, versionId: toId }))
+  );
+  await updateAverageRating(toId);
+}
@@ -0,0 +1,117 @@
+import { Song, ScanSettings } from './db';
+
+/**
+ * Audio extensions picked up by every scan
+ */
+export const DEFAULT_AUDIO_EXTENSIONS = ['.mp3', '.wav', '.flac', '.m4a', '.aac', '.ogg', '.wma'];
+
+/**
+ * Defaults keep the original behaviour: top-level files only, no filtering
+ */
+export const DEFAULT_SCAN_SETTINGS: ScanSettings = {
+  maxDepth: 0,
+  includePatterns: [],
+  excludePatterns: [],
+  extraExtensions: [],
+};
+
+/**
+ * Resolve a song's scan settings, filling in defaults for older records
+ */
+export function getScanSettings(song: Pick<Song, 'scanSettings'>): ScanSettings {
+  return { ...DEFAULT_SCAN_SETTINGS, ...song.scanSettings };
+}
+
+/**
+ * All extensions a scan should accept, lowercased with a leading dot
+ * Example: ["aif", ".OPUS"] → [...defaults, ".aif", ".opus"]
+ */
+export function getAudioExtensions(settings: ScanSettings): string[] {
+  const extras = settings.extraExtensions
+    .map(ext => ext.trim().toLowerCase())
+    .filter(Boolean)
+    .map(ext => (ext.startsWith('.') ? ext : `.${ext}`));
+
+  return Array.from(new Set([...DEFAULT_AUDIO_EXTENSIONS, ...extras]));
+}
+
+/**
+ * Convert a glob to a case-insensitive regular expression
+ * `**` crosses folders, `*` and `?` stay within one path segment
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" also matches zero folders
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Test a relative path against a glob pattern, gitignore style:
+ * - "Audio Files/" only matches folders
+ * - "Mixes/*.wav" (contains a slash) matches the whole relative path
+ * - "*_stem*" (no slash) matches the entry name at any depth
+ */
+export function matchesPattern(relativePath: string, pattern: string, isDirectory: boolean): boolean {
+  let glob = pattern.trim();
+  if (!glob) return false;
+
+  if (glob.endsWith('/')) {
+    if (!isDirectory) return false;
+    glob = glob.slice(0, -1);
+  }
+
+  if (glob.includes('/')) {
+    return globToRegExp(glob.replace(/^\//, '')).test(relativePath);
+  }
+
+  const name = relativePath.slice(relativePath.lastIndexOf('/') + 1);
+  return globToRegExp(glob).test(name);
+}
+
+/**
+ * Check whether a file or folder is excluded by the song's patterns
+ */
+export function isExcluded(relativePath: string, settings: ScanSettings, isDirectory: boolean): boolean {
+  return settings.excludePatterns.some(pattern => matchesPattern(relativePath, pattern, isDirectory));
+}
+
+/**
+ * Check whether a file passes the include patterns (everything passes when none are set)
+ */
+export function isIncluded(relativePath: string, settings: ScanSettings): boolean {
+  if (settings.includePatterns.length === 0) return true;
+  return settings.includePatterns.some(pattern => matchesPattern(relativePath, pattern, false));
+}
+
+/**
+ * Split user-entered text (one entry per line or comma separated) into a list
+ */
+export function parsePatternList(text: string): string[] {
+  return text
+    .split(/[\n,]/)
+    .map(entry => entry.trim())
+    .filter(Boolean);
+}
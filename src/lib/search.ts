@@ -0,0 +1,326 @@
+import { db, Note, Image } from './db';
+
+// In-memory full-text index over songs, versions, notes, tags and image captions.
+// Built lazily on the first search, notes and captions are kept up to date as they're edited,
+// anything structural (folders added, rescans, restores) just drops the index for a rebuild.
+
+export type SearchKind = 'song' | 'version' | 'note' | 'tag' | 'image';
+
+export interface SearchDocument {
+  key: string;              // Unique per document, e.g. "note:12" or "tag:4:7" (version 4, tag 7)
+  kind: SearchKind;
+  id: number;               // ID of the song, version, note, tag or image
+  songId: number;
+  versionId: number | null; // null for song documents
+  text: string;
+  time: number | null;      // Where to seek for notes and pinned images
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  snippet: string;
+}
+
+// Results of one song, best match first
+export interface SongSearchResults {
+  songId: number;
+  songName: string;
+  score: number;
+  results: SearchResult[];
+}
+
+// Names are short and deliberate, a hit there counts more than one word in a long note
+const KIND_WEIGHTS: Record<SearchKind, number> = {
+  song: 3,
+  version: 3,
+  tag: 2,
+  image: 1.5,
+  note: 1,
+};
+
+const MAX_RESULTS = 50;
+const SNIPPET_RADIUS = 40; // Characters either side of the first hit
+
+interface SearchIndex {
+  documents: Map<string, SearchDocument>;
+  postings: Map<string, Map<string, number>>; // token → document key → occurrences
+  songNames: Map<number, string>;
+}
+
+let index: SearchIndex | null = null;
+let building: Promise<SearchIndex> | null = null;
+let generation = 0; // Bumped on every invalidation, builds started before it are thrown away
+
+// Lowercased words, accents folded so "bass" also finds "báss"
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+// Plain text of a note's HTML, block boundaries become spaces
+export function stripHtml(html: string): string {
+  const spaced = html.replace(/></g, '> <');
+  const text = new DOMParser().parseFromString(spaced, 'text/html').body.textContent || '';
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function addDocument(target: SearchIndex, document: SearchDocument): void {
+  removeDocument(target, document.key);
+  target.documents.set(document.key, document);
+
+  for (const token of tokenize(document.text)) {
+    if (!target.postings.has(token)) {
+      target.postings.set(token, new Map());
+    }
+    const counts = target.postings.get(token)!;
+    counts.set(document.key, (counts.get(document.key) || 0) + 1);
+  }
+}
+
+function removeDocument(target: SearchIndex, key: string): void {
+  const existing = target.documents.get(key);
+  if (!existing) return;
+
+  for (const token of new Set(tokenize(existing.text))) {
+    const counts = target.postings.get(token);
+    counts?.delete(key);
+    if (counts?.size === 0) target.postings.delete(token);
+  }
+  target.documents.delete(key);
+}
+
+function noteDocument(note: Note, songId: number): SearchDocument {
+  return {
+    key: `note:${note.id}`,
+    kind: 'note',
+    id: note.id!,
+    songId,
+    versionId: note.versionId,
+    text: stripHtml(note.content),
+    time: note.startTime,
+  };
+}
+
+function imageDocument(image: Image, songId: number): SearchDocument {
+  return {
+    key: `image:${image.id}`,
+    kind: 'image',
+    id: image.id!,
+    songId,
+    versionId: image.versionId,
+    text: image.caption || '',
+    time: image.timestamp ?? null,
+  };
+}
+
+async function buildIndex(): Promise<SearchIndex> {
+  const [songs, versions, notes, tags, versionTags, images] = await Promise.all([
+    db.songs.toArray(),
+    db.versions.toArray(),
+    db.notes.toArray(),
+    db.tags.toArray(),
+    db.versionTags.toArray(),
+    db.images.toArray(),
+  ]);
+
+  const built: SearchIndex = { documents: new Map(), postings: new Map(), songNames: new Map() };
+  const songOfVersion = new Map(versions.map((v) => [v.id!, v.songId]));
+  const tagNames = new Map(tags.map((t) => [t.id!, t.name]));
+
+  for (const song of songs) {
+    built.songNames.set(song.id!, song.name);
+    addDocument(built, {
+      key: `song:${song.id}`,
+      kind: 'song',
+      id: song.id!,
+      songId: song.id!,
+      versionId: null,
+      text: song.name,
+      time: null,
+    });
+  }
+
+  for (const version of versions) {
+    addDocument(built, {
+      key: `version:${version.id}`,
+      kind: 'version',
+      id: version.id!,
+      songId: version.songId,
+      versionId: version.id!,
+      text: version.versionName,
+      time: null,
+    });
+  }
+
+  // Tags are indexed once per tagged version so hits land on the versions
+  for (const vt of versionTags) {
+    const songId = songOfVersion.get(vt.versionId);
+    const name = tagNames.get(vt.tagId);
+    if (songId === undefined || !name) continue;
+    addDocument(built, {
+      key: `tag:${vt.versionId}:${vt.tagId}`,
+      kind: 'tag',
+      id: vt.tagId,
+      songId,
+      versionId: vt.versionId,
+      text: name,
+      time: null,
+    });
+  }
+
+  for (const note of notes) {
+    const songId = songOfVersion.get(note.versionId);
+    if (songId !== undefined) addDocument(built, noteDocument(note, songId));
+  }
+
+  for (const image of images) {
+    const songId = songOfVersion.get(image.versionId);
+    if (songId !== undefined && image.caption) addDocument(built, imageDocument(image, songId));
+  }
+
+  return built;
+}
+
+async function getIndex(): Promise<SearchIndex> {
+  if (index) return index;
+
+  const started = generation;
+  if (!building) {
+    building = buildIndex();
+  }
+  const pending = building;
+
+  try {
+    const built = await pending;
+    // Invalidated while building, the result may miss those changes
+    if (started !== generation) return await getIndex();
+    index = built;
+    return index;
+  } finally {
+    if (building === pending) building = null;
+  }
+}
+
+// Drop the index and any build in progress, the next search rebuilds it from the database
+export function invalidateSearchIndex(): void {
+  generation++;
+  index = null;
+  building = null;
+}
+
+// Re-index one note after it was created or edited
+// Without an index a build may be running that read the note before the change, so that build is dropped
+export async function updateNoteInIndex(noteId: number): Promise<void> {
+  if (!index) return invalidateSearchIndex();
+
+  const note = await db.notes.get(noteId);
+  const version = note && (await db.versions.get(note.versionId));
+  if (!index) return;
+
+  if (note && version) {
+    addDocument(index, noteDocument(note, version.songId));
+  } else {
+    removeDocument(index, `note:${noteId}`);
+  }
+}
+
+export function removeNoteFromIndex(noteId: number): void {
+  if (index) removeDocument(index, `note:${noteId}`);
+  else invalidateSearchIndex();
+}
+
+// Re-index one image after its caption or time changed
+export async function updateImageInIndex(imageId: number): Promise<void> {
+  if (!index) return invalidateSearchIndex();
+
+  const image = await db.images.get(imageId);
+  const version = image && (await db.versions.get(image.versionId));
+  if (!index) return;
+
+  if (image && version && image.caption) {
+    addDocument(index, imageDocument(image, version.songId));
+  } else {
+    removeDocument(index, `image:${imageId}`);
+  }
+}
+
+function getSnippet(text: string, tokens: string[]): string {
+  const lower = text.toLowerCase();
+  const position = Math.max(0, Math.min(...tokens.map((t) => {
+    const found = lower.indexOf(t);
+    return found < 0 ? Infinity : found;
+  })));
+  if (!Number.isFinite(position) || text.length <= SNIPPET_RADIUS * 2) {
+    return text.slice(0, SNIPPET_RADIUS * 2);
+  }
+
+  const start = Math.max(0, position - SNIPPET_RADIUS);
+  const end = Math.min(text.length, position + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+// Every query word has to match the start of a word in the document
+// Exact words count double, the whole query appearing as typed doubles the score again
+export async function search(query: string): Promise<SongSearchResults[]> {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return [];
+
+  const target = await getIndex();
+  const scores = new Map<string, number>();
+
+  queryTokens.forEach((queryToken, i) => {
+    const matches = new Map<string, number>();
+    for (const [token, counts] of target.postings) {
+      if (!token.startsWith(queryToken)) continue;
+      const weight = token === queryToken ? 2 : 1;
+      for (const [key, count] of counts) {
+        matches.set(key, (matches.get(key) || 0) + count * weight);
+      }
+    }
+
+    // Documents missing an earlier word are already out
+    for (const [key, score] of matches) {
+      if (i === 0 || scores.has(key)) {
+        scores.set(key, (scores.get(key) || 0) + score);
+      }
+    }
+    for (const key of scores.keys()) {
+      if (!matches.has(key)) scores.delete(key);
+    }
+  });
+
+  const phrase = query.trim().toLowerCase();
+  const results: SearchResult[] = [];
+  for (const [key, score] of scores) {
+    const document = target.documents.get(key)!;
+    const phraseBonus = document.text.toLowerCase().includes(phrase) ? 2 : 1;
+    results.push({
+      document,
+      score: score * KIND_WEIGHTS[document.kind] * phraseBonus,
+      snippet: getSnippet(document.text, queryTokens),
+    });
+  }
+
+  results.sort((a, b) => b.score - a.score);
+
+  const groups = new Map<number, SongSearchResults>();
+  for (const result of results.slice(0, MAX_RESULTS)) {
+    const songId = result.document.songId;
+    if (!groups.has(songId)) {
+      groups.set(songId, {
+        songId,
+        songName: target.songNames.get(songId) || 'Unknown song',
+        score: result.score,
+        results: [],
+      });
+    }
+    groups.get(songId)!.results.push(result);
+  }
+
+  return Array.from(groups.values());
+}
@@ -0,0 +1,102 @@
+import { db, Song, VersionFormat } from './db';
+import { deserializeHandle } from './fileSystem';
+import { checkDurationMismatch } from './mismatchReport';
+import { getMismatchThresholds } from './mismatchAnalysis';
+
+// Per-song folder access, mirrors the File System Access permission states
+// plus 'missing' for folders that are gone or were never linked
+export type SongAccessState = 'granted' | 'prompt' | 'denied' | 'missing';
+
+// Check whether a song still has a folder reference at all
+export function isSongUnlinked(song: { folderHandle: string }): boolean {
+  return !song.folderHandle;
+}
+
+// Check a song's folder permission and files, flagging formats whose files are gone
+// Files can only be checked once read access is granted
+export async function checkSongAccess(song: Song): Promise<SongAccessState> {
+  if (isSongUnlinked(song)) return 'missing';
+
+  const dirHandle = await deserializeHandle(song.folderHandle);
+  if (!dirHandle) return 'missing';
+
+  const permission = await dirHandle.queryPermission({ mode: 'read' });
+  if (permission !== 'granted') {
+    return permission;
+  }
+
+  // Listing a moved or deleted folder throws NotFoundError
+  try {
+    await (dirHandle as FileSystemDirectoryHandle).values().next();
+  } catch (err: any) {
+    if (err.name === 'NotFoundError') return 'missing';
+    throw err;
+  }
+
+  await flagMissingFormats(song.id!);
+
+  return 'granted';
+}
+
+// Re-request read access for several songs from a single click
+// Chromium forgets grants between sessions; each folder still shows its own prompt
+export async function requestSongAccess(songs: Song[]): Promise<Record<number, SongAccessState>> {
+  const states: Record<number, SongAccessState> = {};
+
+  for (const song of songs) {
+    const dirHandle = isSongUnlinked(song) ? null : await deserializeHandle(song.folderHandle);
+    if (!dirHandle) {
+      states[song.id!] = 'missing';
+      continue;
+    }
+
+    try {
+      states[song.id!] = await dirHandle.requestPermission({ mode: 'read' });
+    } catch (err: any) {
+      // The user gesture expired part-way through, the rest need another click
+      if (err.name === 'SecurityError' || err.name === 'NotAllowedError') {
+        console.warn('Permission request needs a new user gesture:', err);
+        break;
+      }
+      throw err;
+    }
+  }
+
+  return states;
+}
+
+// Update the missing flag on every format of a song
+async function flagMissingFormats(songId: number): Promise<void> {
+  const versions = await db.versions.where('songId').equals(songId).toArray();
+  const thresholds = await getMismatchThresholds();
+
+  for (const version of versions) {
+    let changed = false;
+
+    const formats: VersionFormat[] = [];
+    for (const format of version.formats) {
+      const missing = !(await isFileReachable(format.fileHandle));
+      changed = changed || missing !== !!format.missing;
+      formats.push({ ...format, missing });
+    }
+
+    if (changed) {
+      await db.versions.update(version.id!, {
+        formats,
+        hasDurationMismatch: checkDurationMismatch(formats, thresholds),
+      });
+    }
+  }
+}
+
+async function isFileReachable(handleId: string): Promise<boolean> {
+  const fileHandle = await deserializeHandle(handleId);
+  if (!fileHandle) return false;
+
+  try {
+    await (fileHandle as FileSystemFileHandle).getFile();
+    return true;
+  } catch (err: any) {
+    return err.name !== 'NotFoundError';
+  }
+}
@@ -0,0 +1,107 @@
+import { db, Tag } from './db';
+import { replaceFilterTag } from './versionFilter';
+
+// Library-wide tag maintenance: usage counts, rename, recolor, regroup, merge and delete.
+// Tag names are unique, so renaming onto an existing name merges the two tags.
+
+// Number of versions carrying each tag, unused tags are missing from the map
+export async function getTagUsage(): Promise<Map<number, number>> {
+  const usage = new Map<number, number>();
+  await db.versionTags.each((vt) => {
+    usage.set(vt.tagId, (usage.get(vt.tagId) || 0) + 1);
+  });
+  return usage;
+}
+
+// Another tag already using this name, compared case-insensitively
+export async function findTagByName(name: string, exceptId?: number): Promise<Tag | undefined> {
+  const matches = await db.tags.where('name').equalsIgnoreCase(name.trim()).toArray();
+  return matches.find((tag) => tag.id !== exceptId);
+}
+
+// Sorted group names in use, for suggestions
+export function getTagGroups(tags: Tag[]): string[] {
+  return Array.from(new Set(tags.map((t) => t.group?.trim()).filter((g): g is string => !!g))).sort();
+}
+
+// Tags bucketed by group with ungrouped ones last, each bucket sorted by name
+export function groupTags(tags: Tag[]): [string | null, Tag[]][] {
+  const buckets = new Map<string | null, Tag[]>();
+  for (const tag of [...tags].sort((a, b) => a.name.localeCompare(b.name))) {
+    const group = tag.group?.trim() || null;
+    if (!buckets.has(group)) buckets.set(group, []);
+    buckets.get(group)!.push(tag);
+  }
+
+  return Array.from(buckets.entries()).sort(([a], [b]) => {
+    if (a === null) return 1;
+    if (b === null) return -1;
+    return a.localeCompare(b);
+  });
+}
+
+// Rename a tag; if the name is taken the tag is merged into the other one
+// Returns the ID of the tag that carries the name afterwards
+export async function renameTag(tagId: number, name: string): Promise<number> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Tag name cannot be empty');
+  }
+
+  const existing = await findTagByName(trimmed, tagId);
+  if (existing) {
+    await mergeTags(tagId, existing.id!);
+    return existing.id!;
+  }
+
+  await db.tags.update(tagId, { name: trimmed });
+  return tagId;
+}
+
+export async function updateTagStyle(tagId: number, color: string, group: string | null): Promise<void> {
+  await db.tags.update(tagId, { color, group: group?.trim() || null });
+}
+
+// Move every version of the source tag to the target, then drop the source
+// Versions carrying both keep a single link, smart views follow the target
+export async function mergeTags(sourceId: number, targetId: number): Promise<void> {
+  if (sourceId === targetId) return;
+
+  await db.transaction('rw', [db.tags, db.versionTags, db.smartViews], async () => {
+    const target = await db.tags.get(targetId);
+    if (!target) {
+      throw new Error(`Tag ${targetId} not found`);
+    }
+
+    const sourceLinks = await db.versionTags.where('tagId').equals(sourceId).toArray();
+    const tagged = new Set(
+      (await db.versionTags.where('tagId').equals(targetId).toArray()).map((vt) => vt.versionId)
+    );
+
+    await db.versionTags.where('tagId').equals(sourceId).delete();
+    await db.versionTags.bulkAdd(
+      sourceLinks
+        .filter((vt) => !tagged.has(vt.versionId))
+        .map((vt) => ({ versionId: vt.versionId, tagId: targetId }))
+    );
+
+    await db.tags.delete(sourceId);
+    await replaceTagInSmartViews(sourceId, targetId);
+  });
+}
+
+// Delete a tag and detach it from every version, returns how many versions lost it
+export async function deleteTag(tagId: number): Promise<number> {
+  return await db.transaction('rw', [db.tags, db.versionTags, db.smartViews], async () => {
+    const removed = await db.versionTags.where('tagId').equals(tagId).delete();
+    await db.tags.delete(tagId);
+    await replaceTagInSmartViews(tagId, null);
+    return removed;
+  });
+}
+
+async function replaceTagInSmartViews(fromId: number, toId: number | null): Promise<void> {
+  await db.smartViews.toCollection().modify((view) => {
+    view.filter = replaceFilterTag(view.filter, fromId, toId);
+  });
+}
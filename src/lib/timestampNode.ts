@@ -0,0 +1,95 @@
+import { Node, mergeAttributes, nodeInputRule, nodePasteRule } from '@tiptap/react';
+import {
+  TimeRange, TIMESTAMP_CLASS, TIMESTAMP_MENTION, TIMESTAMP_SELECTOR, formatTimeRange, parseTimeRange,
+} from './timestamps';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    timestamp: {
+      // Insert a chip followed by a space at the cursor
+      insertTimestamp: (range: TimeRange) => ReturnType;
+    };
+  }
+}
+
+// Typing "@1:05 " turns the mention into a chip once the space is typed
+const TYPED_MENTION = new RegExp(`(${TIMESTAMP_MENTION.source})\\s$`);
+
+function getRangeAttributes(text: string) {
+  const range = parseTimeRange(text);
+  return range ? { seconds: range.start, end: range.end } : null;
+}
+
+// Inline timestamp chip for notes, stored as <span data-timestamp="65" data-end="92">1:05-1:32</span>
+// The chip is an atom: it's selected and deleted as a whole, clicking it seeks the player
+export const TimestampNode = Node.create({
+  name: 'timestamp',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      seconds: {
+        default: 0,
+        parseHTML: (element) => parseFloat(element.getAttribute('data-timestamp') || '0'),
+        renderHTML: (attributes) => ({ 'data-timestamp': attributes.seconds }),
+      },
+      end: {
+        default: null,
+        parseHTML: (element) => {
+          const end = element.getAttribute('data-end');
+          return end === null ? null : parseFloat(end);
+        },
+        renderHTML: (attributes) => (attributes.end === null ? {} : { 'data-end': attributes.end }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: TIMESTAMP_SELECTOR }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'span',
+      mergeAttributes({ class: TIMESTAMP_CLASS }, HTMLAttributes),
+      formatTimeRange(node.attrs.seconds, node.attrs.end, true),
+    ];
+  },
+
+  renderText({ node }) {
+    return `@${formatTimeRange(node.attrs.seconds, node.attrs.end, true)}`;
+  },
+
+  addCommands() {
+    return {
+      insertTimestamp: (range) => ({ commands }) =>
+        commands.insertContent([
+          { type: this.name, attrs: { seconds: range.start, end: range.end } },
+          { type: 'text', text: ' ' },
+        ]),
+    };
+  },
+
+  addInputRules() {
+    return [
+      nodeInputRule({
+        find: TYPED_MENTION,
+        type: this.type,
+        getAttributes: (match) => getRangeAttributes(match[1]),
+      }),
+    ];
+  },
+
+  addPasteRules() {
+    return [
+      nodePasteRule({
+        find: TIMESTAMP_MENTION,
+        type: this.type,
+        getAttributes: (match) => getRangeAttributes(match[0]),
+      }),
+    ];
+  },
+});
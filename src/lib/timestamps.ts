@@ -0,0 +1,139 @@
+// A point in time, or a span when end is set (seconds)
+export interface TimeRange {
+  start: number;
+  end: number | null;
+}
+
+// m:ss or h:mm:ss, optionally with fractional seconds (1:05.25)
+const TIME = '\\d+(?::[0-5]\\d){1,2}(?:\\.\\d{1,3})?';
+const RANGE = `(${TIME})(?:\\s*-\\s*(${TIME}))?`;
+const TIME_RANGE = new RegExp(`^@?${RANGE}$`);
+
+// Timestamp mentions in typed text: @1:05, @1:02:03 or @1:05-1:32
+// The @ can't follow a word character, so "email@3:00" stays text
+export const TIMESTAMP_MENTION = new RegExp(`(?<![\\w.@])@${RANGE}(?![\\d:]|\\.\\d)`, 'g');
+
+// Class and data attributes of the timestamp chips stored in note HTML
+export const TIMESTAMP_CLASS = 'timestamp-chip';
+export const TIMESTAMP_SELECTOR = 'span[data-timestamp]';
+
+// Format seconds as m:ss, or h:mm:ss from an hour on
+// Precise keeps up to milliseconds (1:05.25), otherwise seconds are floored
+export function formatTimestamp(seconds: number, precise = false): string {
+  const total = precise ? Math.round(seconds * 1000) / 1000 : Math.floor(seconds);
+  const whole = Math.floor(total);
+  const hours = Math.floor(whole / 3600);
+  const mins = Math.floor((whole % 3600) / 60);
+  const fraction = Math.round((total - whole) * 1000);
+
+  let secs = (whole % 60).toString().padStart(2, '0');
+  if (fraction > 0) {
+    secs += `.${fraction.toString().padStart(3, '0').replace(/0+$/, '')}`;
+  }
+
+  return hours > 0 ? `${hours}:${mins.toString().padStart(2, '0')}:${secs}` : `${mins}:${secs}`;
+}
+
+// Format a range as m:ss or m:ss-m:ss
+export function formatTimeRange(start: number, end: number | null | undefined, precise = false): string {
+  return end != null
+    ? `${formatTimestamp(start, precise)}-${formatTimestamp(end, precise)}`
+    : formatTimestamp(start, precise);
+}
+
+// Parse "1:05", "@1:02:03.5" or "1:05-1:32", returns null for anything else
+// A reversed range is swapped rather than rejected
+export function parseTimeRange(text: string): TimeRange | null {
+  const match = text.trim().match(TIME_RANGE);
+  if (!match) return null;
+
+  return toTimeRange(match[1], match[2]);
+}
+
+// Every timestamp chip in a note, in document order
+export function extractTimestamps(html: string): TimeRange[] {
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  return Array.from(body.querySelectorAll<HTMLElement>(TIMESTAMP_SELECTOR))
+    .map(readChip)
+    .filter((range): range is TimeRange => range !== null);
+}
+
+// The first timestamp in a note sets the note's range
+export function findTimeRange(content: string): TimeRange | null {
+  return extractTimestamps(content)[0] ?? null;
+}
+
+// Rewrite the first timestamp to a new range, or add one at the start
+export function replaceTimeRange(content: string, range: TimeRange): string {
+  const body = new DOMParser().parseFromString(content, 'text/html').body;
+  const chip = body.querySelector<HTMLElement>(TIMESTAMP_SELECTOR);
+
+  if (chip) {
+    chip.replaceWith(createChip(body.ownerDocument, range));
+  } else {
+    const target = body.querySelector('p') || body;
+    target.prepend(createChip(body.ownerDocument, range), ' ');
+  }
+  return body.innerHTML;
+}
+
+// Move every timestamp chip of a note, e.g. when carrying it to another version
+export function remapTimestamps(content: string, mapTime: (seconds: number) => number): string {
+  const body = new DOMParser().parseFromString(content, 'text/html').body;
+
+  body.querySelectorAll<HTMLElement>(TIMESTAMP_SELECTOR).forEach((chip) => {
+    const range = readChip(chip);
+    if (!range) return;
+
+    const start = mapTime(range.start);
+    const end = range.end !== null ? mapTime(range.end) : null;
+    chip.replaceWith(createChip(body.ownerDocument, { start, end: end !== null && end > start ? end : null }));
+  });
+  return body.innerHTML;
+}
+
+// HTML of a chip, matches what the editor's timestamp node renders
+export function renderTimestampChip(range: TimeRange): string {
+  return createChip(document, range).outerHTML;
+}
+
+// Turn @m:ss text typed before timestamps were chips into chips, tags are left alone
+export function convertTimestampMentions(html: string): string {
+  return html
+    .split(/(<[^>]*>)/)
+    .map((part) => part.startsWith('<') ? part : part.replace(TIMESTAMP_MENTION, (_, start, end) =>
+      renderTimestampChip(toTimeRange(start, end))
+    ))
+    .join('');
+}
+
+function createChip(doc: Document, range: TimeRange): HTMLElement {
+  const chip = doc.createElement('span');
+  chip.className = TIMESTAMP_CLASS;
+  chip.dataset.timestamp = String(range.start);
+  if (range.end !== null) chip.dataset.end = String(range.end);
+  chip.textContent = formatTimeRange(range.start, range.end, true);
+  return chip;
+}
+
+function readChip(chip: HTMLElement): TimeRange | null {
+  const start = parseFloat(chip.dataset.timestamp || '');
+  if (!Number.isFinite(start)) return null;
+
+  const end = parseFloat(chip.dataset.end || '');
+  return { start, end: Number.isFinite(end) && end > start ? end : null };
+}
+
+// Seconds of "1:05", "1:02:03" or "1:05.25"
+function parseClock(text: string): number {
+  return text.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+function toTimeRange(startText: string, endText: string | undefined): TimeRange {
+  const start = parseClock(startText);
+  if (endText === undefined) return { start, end: null };
+
+  const end = parseClock(endText);
+  if (end === start) return { start, end: null };
+  return end > start ? { start, end } : { start: end, end: start };
+}
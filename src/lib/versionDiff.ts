@@ -0,0 +1,192 @@
+import { db, getVersionWithTags, Note, Tag, VersionFormat, VersionWithTags } from './db';
+import { ENVELOPE_RATE, correlateEnvelopes } from './mismatchReport';
+import { analyzeFormatLoudness } from './loudnessAnalysis';
+import { formatAudioSpec } from './formatUtils';
+import { getNoteStatus } from './noteThreads';
+
+// What changed from one version of a song to another: rating, tags, notes, the selected
+// format's specs and loudness, and where the audio itself diverges.
+
+const MAX_ALIGN_LAG = 300;      // Segments searched either way (30 s) when lining the audio up
+const MIN_ALIGN_CORRELATION = 0.5; // Below this the versions are compared without a shift
+const SMOOTHING = 5;            // Segments averaged before comparing, ignores single transients
+const DIVERGENCE_LU = 3;        // Loudness difference that counts as changed audio
+const MIN_REGION = 10;          // Segments (1 s), shorter differences are left out
+const SILENCE = -70;            // Envelopes are floored at the absolute gate
+
+// Before and after of a number, delta is null unless both are known
+export interface ValueChange {
+  from: number | null;
+  to: number | null;
+  delta: number | null;
+}
+
+// A stretch of the second version, in seconds, that plays differently
+export interface DivergentRegion {
+  start: number;
+  end: number;
+}
+
+export interface AudioDiff {
+  offset: number;             // Seconds later the same content plays in the second version
+  correlation: number | null; // Null when the envelopes didn't line up and were compared as they are
+  fromEnvelope: (number | null)[]; // First version shifted onto the second one's timeline, null where it has no audio
+  toEnvelope: number[];
+  regions: DivergentRegion[];
+}
+
+export interface FormatDiff {
+  from: VersionFormat | null;
+  to: VersionFormat | null;
+  specChanged: boolean;       // Format, sample rate, bit depth or channels differ
+  duration: ValueChange;
+  integrated: ValueChange;
+  truePeak: ValueChange;
+  range: ValueChange;
+}
+
+export interface VersionDiff {
+  from: VersionWithTags;
+  to: VersionWithTags;
+  rating: ValueChange;
+  tagsAdded: Tag[];
+  tagsRemoved: Tag[];
+  notesAdded: Note[];    // Top-level notes new on the later version
+  notesResolved: Note[]; // Earlier notes resolved or dismissed, on the earlier version or their carried copy
+  notesOpen: Note[];     // Earlier notes still open
+  format: FormatDiff;
+  audio: AudioDiff | null; // Null until both selected formats have been analysed
+}
+
+function valueChange(from: number | null | undefined, to: number | null | undefined): ValueChange {
+  const a = from ?? null;
+  const b = to ?? null;
+  return { from: a, to: b, delta: a !== null && b !== null ? Math.round((b - a) * 10) / 10 : null };
+}
+
+function diffTags(from: Tag[], to: Tag[]): { added: Tag[]; removed: Tag[] } {
+  const fromIds = new Set(from.map((t) => t.id));
+  const toIds = new Set(to.map((t) => t.id));
+  return {
+    added: to.filter((t) => !fromIds.has(t.id)),
+    removed: from.filter((t) => !toIds.has(t.id)),
+  };
+}
+
+// An earlier note counts as resolved once it or the copy carried to the later version is closed
+function diffNotes(fromNotes: Note[], toNotes: Note[]) {
+  const fromTopLevel = fromNotes.filter((n) => !n.parentId);
+  const toTopLevel = toNotes.filter((n) => !n.parentId);
+  const fromIds = new Set(fromTopLevel.map((n) => n.id));
+  const carried = new Map(toTopLevel.filter((n) => n.carriedFromNoteId).map((n) => [n.carriedFromNoteId!, n]));
+
+  const notesResolved: Note[] = [];
+  const notesOpen: Note[] = [];
+  for (const note of fromTopLevel) {
+    const current = carried.get(note.id!) ?? note;
+    (getNoteStatus(current) === 'open' ? notesOpen : notesResolved).push(current);
+  }
+
+  return {
+    notesAdded: toTopLevel.filter((n) => !n.carriedFromNoteId || !fromIds.has(n.carriedFromNoteId)),
+    notesResolved,
+    notesOpen,
+  };
+}
+
+function diffFormats(from: VersionFormat | null, to: VersionFormat | null): FormatDiff {
+  return {
+    from,
+    to,
+    specChanged: !!from && !!to && (from.format !== to.format || formatAudioSpec(from) !== formatAudioSpec(to)),
+    duration: valueChange(from?.duration, to?.duration),
+    integrated: valueChange(from?.loudness?.integrated, to?.loudness?.integrated),
+    truePeak: valueChange(from?.loudness?.truePeak, to?.loudness?.truePeak),
+    range: valueChange(from?.loudness?.range, to?.loudness?.range),
+  };
+}
+
+function smooth(envelope: (number | null)[]): (number | null)[] {
+  const half = Math.floor(SMOOTHING / 2);
+  return envelope.map((value, i) => {
+    if (value === null) return null;
+    const window = envelope.slice(Math.max(0, i - half), i + half + 1).filter((v): v is number => v !== null);
+    return window.reduce((sum, v) => sum + v, 0) / window.length;
+  });
+}
+
+// Line the first envelope up with the second one, then mark where they differ by more than a few LU
+// Audio the first version doesn't have at all (a new intro, a longer outro) counts as changed unless silent
+export function diffEnvelopes(fromEnvelope: number[], toEnvelope: number[]): AudioDiff {
+  const match = correlateEnvelopes(fromEnvelope, toEnvelope, MAX_ALIGN_LAG);
+  const aligned = match && match.correlation >= MIN_ALIGN_CORRELATION ? match : null;
+  const lag = aligned?.lag ?? 0;
+
+  // Content at segment j of the second plays at segment j + lag of the first
+  const shifted = toEnvelope.map((_, j) => fromEnvelope[j + lag] ?? null);
+  const a = smooth(shifted);
+  const b = smooth(toEnvelope);
+
+  const regions: DivergentRegion[] = [];
+  let runStart: number | null = null;
+  for (let j = 0; j <= b.length; j++) {
+    const to = b[j];
+    const from = a[j];
+    const differs = j < b.length && (from === null ? to! > SILENCE : Math.abs(to! - from) > DIVERGENCE_LU);
+
+    if (differs && runStart === null) {
+      runStart = j;
+    } else if (!differs && runStart !== null) {
+      if (j - runStart >= MIN_REGION) {
+        regions.push({ start: runStart / ENVELOPE_RATE, end: j / ENVELOPE_RATE });
+      }
+      runStart = null;
+    }
+  }
+
+  return {
+    offset: -lag / ENVELOPE_RATE,
+    correlation: aligned ? Math.round(aligned.correlation * 100) / 100 : null,
+    fromEnvelope: shifted,
+    toEnvelope,
+    regions,
+  };
+}
+
+// Compare two versions as they're stored, analysing their selected formats first when asked
+export async function loadVersionDiff(fromId: number, toId: number, analyse = false): Promise<VersionDiff> {
+  if (analyse) {
+    for (const id of [fromId, toId]) {
+      const version = await db.versions.get(id);
+      const format = version?.formats[version.selectedFormatIndex];
+      if (version && format && !format.envelope && !format.missing) {
+        await analyzeFormatLoudness(id, version.selectedFormatIndex);
+      }
+    }
+  }
+
+  const [from, to] = await Promise.all([getVersionWithTags(fromId), getVersionWithTags(toId)]);
+  if (!from || !to) {
+    throw new Error('Both versions must exist to compare them');
+  }
+
+  const [fromNotes, toNotes] = await Promise.all([
+    db.notes.where('versionId').equals(fromId).toArray(),
+    db.notes.where('versionId').equals(toId).toArray(),
+  ]);
+
+  const fromFormat = from.formats[from.selectedFormatIndex] ?? null;
+  const toFormat = to.formats[to.selectedFormatIndex] ?? null;
+  const tags = diffTags(from.tags, to.tags);
+
+  return {
+    from,
+    to,
+    rating: valueChange(from.rating, to.rating),
+    tagsAdded: tags.added,
+    tagsRemoved: tags.removed,
+    ...diffNotes(fromNotes, toNotes),
+    format: diffFormats(fromFormat, toFormat),
+    audio: fromFormat?.envelope && toFormat?.envelope ? diffEnvelopes(fromFormat.envelope, toFormat.envelope) : null,
+  };
+}
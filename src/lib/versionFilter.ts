@@ -0,0 +1,142 @@
+import { VersionFilter, VersionWithTags } from './db';
+
+// Library-wide version filter, shared by the filter bar and saved smart views
+
+export const EMPTY_VERSION_FILTER: VersionFilter = {
+  tagsAll: [],
+  tagsAny: [],
+  tagsNone: [],
+  minRating: null,
+  unratedOnly: false,
+  hasNotes: null,
+  hasMismatch: null,
+  formats: [],
+  withinDays: null,
+  dateFrom: null,
+  dateTo: null,
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// What a version needs to be filtered, the song browser's versions carry their note count
+export type FilterableVersion = VersionWithTags & { noteCount: number };
+
+// Fill criteria added after a view was saved
+export function normalizeFilter(filter: Partial<VersionFilter>): VersionFilter {
+  return { ...EMPTY_VERSION_FILTER, ...filter };
+}
+
+export function isFilterActive(filter: VersionFilter): boolean {
+  return (
+    filter.tagsAll.length > 0 ||
+    filter.tagsAny.length > 0 ||
+    filter.tagsNone.length > 0 ||
+    filter.minRating !== null ||
+    filter.unratedOnly ||
+    filter.hasNotes !== null ||
+    filter.hasMismatch !== null ||
+    filter.formats.length > 0 ||
+    filter.withinDays !== null ||
+    filter.dateFrom !== null ||
+    filter.dateTo !== null
+  );
+}
+
+// Point a filter at another tag after a merge, or drop the tag when it was deleted (toId null)
+export function replaceFilterTag(filter: VersionFilter, fromId: number, toId: number | null): VersionFilter {
+  const replace = (ids: number[]) => {
+    if (!ids.includes(fromId)) return ids;
+    const replaced = ids.filter((id) => id !== fromId);
+    if (toId !== null && !replaced.includes(toId)) replaced.push(toId);
+    return replaced;
+  };
+
+  return {
+    ...filter,
+    tagsAll: replace(filter.tagsAll),
+    tagsAny: replace(filter.tagsAny),
+    tagsNone: replace(filter.tagsNone),
+  };
+}
+
+type DatedVersion = Pick<VersionWithTags, 'versionDate' | 'modifiedAt' | 'formats' | 'selectedFormatIndex'>;
+
+// Date in the name wins over the selected file's timestamp, same as the file date sort
+// Name dates are read as local midnight, like the filter's date range
+export function getVersionDate(version: DatedVersion): number {
+  if (version.versionDate) return new Date(`${version.versionDate}T00:00:00`).getTime();
+  return new Date(version.formats[version.selectedFormatIndex]?.modifiedAt ?? version.modifiedAt).getTime();
+}
+
+// Latest version dated no later than the given one, or the newest other version when it's the oldest
+export function findPreviousVersion<T extends DatedVersion & Pick<VersionWithTags, 'id'>>(
+  versions: T[],
+  version: T
+): T | null {
+  const others = versions
+    .filter((v) => v.id !== version.id)
+    .sort((a, b) => getVersionDate(b) - getVersionDate(a));
+  return others.find((v) => getVersionDate(v) <= getVersionDate(version)) ?? others[0] ?? null;
+}
+
+// Lowercase extension of every format, e.g. ["wav", "mp3"]
+export function getVersionExtensions(version: Pick<VersionWithTags, 'formats'>): string[] {
+  return version.formats.map((f) => f.fileName.split('.').pop()?.toLowerCase() || '');
+}
+
+// Start and end of the date range in ms, either may be open
+function getDateRange(filter: VersionFilter, now: number): [number, number] {
+  if (filter.withinDays !== null) {
+    return [now - filter.withinDays * DAY, Infinity];
+  }
+
+  const from = filter.dateFrom ? new Date(`${filter.dateFrom}T00:00:00`).getTime() : -Infinity;
+  const to = filter.dateTo ? new Date(`${filter.dateTo}T00:00:00`).getTime() + DAY : Infinity;
+  return [from, to];
+}
+
+export function matchesFilter(version: FilterableVersion, filter: VersionFilter, now = Date.now()): boolean {
+  const tagIds = new Set(version.tags.map((t) => t.id!));
+  if (!filter.tagsAll.every((id) => tagIds.has(id))) return false;
+  if (filter.tagsAny.length > 0 && !filter.tagsAny.some((id) => tagIds.has(id))) return false;
+  if (filter.tagsNone.some((id) => tagIds.has(id))) return false;
+
+  if (filter.unratedOnly && version.rating) return false;
+  if (filter.minRating !== null && (version.rating || 0) < filter.minRating) return false;
+
+  if (filter.hasNotes !== null && version.noteCount > 0 !== filter.hasNotes) return false;
+  if (filter.hasMismatch !== null && version.hasDurationMismatch !== filter.hasMismatch) return false;
+
+  if (filter.formats.length > 0) {
+    const extensions = getVersionExtensions(version);
+    if (!filter.formats.some((format) => extensions.includes(format))) return false;
+  }
+
+  const [from, to] = getDateRange(filter, now);
+  const date = getVersionDate(version);
+  if (date < from || date >= to) return false;
+
+  return true;
+}
+
+// Plain-language summary for tooltips, e.g. "tagged mix, 4+ stars, has notes"
+export function describeFilter(filter: VersionFilter, tagNames: Map<number, string>): string {
+  const names = (ids: number[]) => ids.map((id) => tagNames.get(id) || '?').join(', ');
+  const parts: string[] = [];
+
+  if (filter.tagsAll.length > 0) parts.push(`tagged ${names(filter.tagsAll)}`);
+  if (filter.tagsAny.length > 0) parts.push(`any of ${names(filter.tagsAny)}`);
+  if (filter.tagsNone.length > 0) parts.push(`not ${names(filter.tagsNone)}`);
+  if (filter.unratedOnly) parts.push('unrated');
+  if (filter.minRating !== null) parts.push(`${filter.minRating}+ stars`);
+  if (filter.hasNotes !== null) parts.push(filter.hasNotes ? 'has notes' : 'no notes');
+  if (filter.hasMismatch !== null) parts.push(filter.hasMismatch ? 'format mismatch' : 'formats match');
+  if (filter.formats.length > 0) parts.push(filter.formats.join('/'));
+  if (filter.withinDays !== null) {
+    parts.push(`last ${filter.withinDays} days`);
+  } else if (filter.dateFrom || filter.dateTo) {
+    parts.push(`${filter.dateFrom || '…'} to ${filter.dateTo || '…'}`);
+  }
+
+  return parts.join(', ') || 'all versions';
+}
@@ -0,0 +1,216 @@
+import { db, Version, VersionFormat, FormatPolicy, MismatchThresholds } from './db';
+import { selectFormat, getBaseFileName, getGroupingRules, getVersionKey } from './formatUtils';
+import { checkDurationMismatch } from './mismatchReport';
+import { parseVersionInfo } from './versionInfo';
+import { loadFormatPolicy } from './formatPolicy';
+import { getMismatchThresholds } from './mismatchAnalysis';
+import { copyVersionRatings } from './reviewers';
+
+// Which notes and images follow a format that gets split into its own version
+export interface SplitOptions {
+  noteIds: number[];
+  imageIds: number[];
+}
+
+// Move tags, notes and images from one version to another
+// Same remapping as the v2 migration, but skips tags the target already has
+async function moveVersionMetadata(fromId: number, toId: number): Promise<void> {
+  const versionTags = await db.versionTags.where('versionId').equals(fromId).toArray();
+
+  for (const vt of versionTags) {
+    const alreadyTagged = await db.versionTags.get([toId, vt.tagId]);
+    await db.versionTags.where({ versionId: fromId, tagId: vt.tagId }).delete();
+    if (!alreadyTagged) {
+      await db.versionTags.add({ versionId: toId, tagId: vt.tagId });
+    }
+  }
+
+  await db.notes.where('versionId').equals(fromId).modify({ versionId: toId });
+  await db.notes.filter((n) => n.carriedFromVersionId === fromId).modify({ carriedFromVersionId: toId });
+  await db.images.where('versionId').equals(fromId).modify({ versionId: toId });
+}
+
+// Combine formats of two versions, keeping the target's hand-picked selection
+function combineFormats(
+  target: Version,
+  source: Version,
+  formatPolicy: FormatPolicy,
+  thresholds: MismatchThresholds
+): Pick<Version, 'formats' | 'selectedFormatIndex' | 'hasDurationMismatch'> {
+  const existingHandles = new Set(target.formats.map((f) => f.fileHandle));
+  const formats: VersionFormat[] = [
+    ...target.formats,
+    ...source.formats.filter((f) => !existingHandles.has(f.fileHandle)),
+  ];
+
+  const selectedFormatIndex = target.formatSelectionManual && target.formats[target.selectedFormatIndex]
+    ? target.selectedFormatIndex
+    : selectFormat(formats, formatPolicy);
+
+  return {
+    formats,
+    selectedFormatIndex,
+    hasDurationMismatch: checkDurationMismatch(formats, thresholds),
+  };
+}
+
+// Merge the source version into the target; its notes, tags and images move across
+export async function mergeVersions(sourceId: number, targetId: number): Promise<void> {
+  if (sourceId === targetId) return;
+
+  await db.transaction('rw', [db.songs, db.settings, db.versions, db.versionTags, db.notes, db.noteTimestamps, db.images, db.reviewers, db.versionRatings], async () => {
+    const source = await db.versions.get(sourceId);
+    const target = await db.versions.get(targetId);
+    if (!source || !target) {
+      throw new Error('Both versions must exist to merge');
+    }
+    if (source.songId !== target.songId) {
+      throw new Error('Only versions of the same song can be merged');
+    }
+
+    const song = await db.songs.get(target.songId);
+    const combined = combineFormats(target, source, await loadFormatPolicy(song || {}), await getMismatchThresholds());
+
+    await db.versions.update(targetId, {
+      ...combined,
+      manuallyGrouped: true,
+      rating: target.rating ?? source.rating,
+      createdAt: source.createdAt < target.createdAt ? source.createdAt : target.createdAt,
+      modifiedAt: combined.formats[combined.selectedFormatIndex].modifiedAt,
+    });
+
+    // Move metadata before deleting, the delete hook cascades whatever is left
+    await moveVersionMetadata(sourceId, targetId);
+    await copyVersionRatings(sourceId, targetId);
+    await db.versions.delete(sourceId);
+  });
+}
+
+// Split one format out into a new version, returns the new version's ID
+// Tags and ratings are copied, the chosen notes (with their replies) and images move with the format
+export async function splitFormat(
+  versionId: number,
+  formatIndex: number,
+  options: SplitOptions = { noteIds: [], imageIds: [] }
+): Promise<number> {
+  return await db.transaction('rw', [db.songs, db.settings, db.versions, db.versionTags, db.notes, db.noteTimestamps, db.images, db.reviewers, db.versionRatings], async () => {
+    const version = await db.versions.get(versionId);
+    if (!version) {
+      throw new Error(`Version ${versionId} not found`);
+    }
+    if (version.formats.length < 2 || !version.formats[formatIndex]) {
+      throw new Error('Only versions with more than one format can be split');
+    }
+
+    const splitOff = version.formats[formatIndex];
+    const remaining = version.formats.filter((_, i) => i !== formatIndex);
+
+    // Keep a hand-picked selection if it wasn't the format being split off
+    const selectedHandle = version.formats[version.selectedFormatIndex]?.fileHandle;
+    const keptIndex = remaining.findIndex((f) => f.fileHandle === selectedHandle);
+    const keepManual = !!version.formatSelectionManual && keptIndex >= 0;
+    const formatPolicy = await loadFormatPolicy((await db.songs.get(version.songId)) || {});
+    const selectedFormatIndex = keepManual ? keptIndex : selectFormat(remaining, formatPolicy);
+
+    await db.versions.update(versionId, {
+      formats: remaining,
+      selectedFormatIndex,
+      formatSelectionManual: keepManual,
+      hasDurationMismatch: checkDurationMismatch(remaining, await getMismatchThresholds()),
+      manuallyGrouped: true,
+      modifiedAt: remaining[selectedFormatIndex].modifiedAt,
+    });
+
+    // Name the new version after its file, disambiguated by format if needed
+    let versionName = getBaseFileName(splitOff.fileName);
+    const clash = await db.versions.where({ songId: version.songId, versionName }).first();
+    if (clash) {
+      versionName = `${versionName} (${splitOff.format})`;
+    }
+
+    const newVersionId = await db.versions.add({
+      songId: version.songId,
+      versionName,
+      ...parseVersionInfo(versionName),
+      formats: [{ ...splitOff }],
+      selectedFormatIndex: 0,
+      hasDurationMismatch: false,
+      manuallyGrouped: true,
+      rating: version.rating,
+      createdAt: version.createdAt,
+      modifiedAt: splitOff.modifiedAt,
+    }) as number;
+
+    const versionTags = await db.versionTags.where('versionId').equals(versionId).toArray();
+    await db.versionTags.bulkAdd(versionTags.map((vt) => ({ versionId: newVersionId, tagId: vt.tagId })));
+    await copyVersionRatings(versionId, newVersionId);
+
+    if (options.noteIds.length > 0) {
+      const noteIds = new Set(options.noteIds);
+      await db.notes
+        .where('versionId').equals(versionId)
+        .filter((n) => noteIds.has(n.id!) || (!!n.parentId && noteIds.has(n.parentId)))
+        .modify({ versionId: newVersionId });
+    }
+    if (options.imageIds.length > 0) {
+      await db.images
+        .where('id').anyOf(options.imageIds)
+        .filter((i) => i.versionId === versionId)
+        .modify({ versionId: newVersionId });
+    }
+
+    return newVersionId;
+  });
+}
+
+// Re-apply a song's grouping rules to its existing versions
+// Versions that share a key are merged into the oldest one; hand-grouped versions are skipped
+// Regrouping only merges: formats of one version that the new rules would separate stay together,
+// split them by hand if needed
+export async function regroupSong(songId: number): Promise<number> {
+  const song = await db.songs.get(songId);
+  if (!song) {
+    throw new Error(`Song ${songId} not found`);
+  }
+
+  const rules = getGroupingRules(song);
+  const versions = await db.versions.where('songId').equals(songId).toArray();
+
+  const groups = new Map<string, Version[]>();
+  for (const version of versions) {
+    if (version.manuallyGrouped || version.formats.length === 0) continue;
+
+    const key = getVersionKey(version.formats[0].fileName, rules);
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(version);
+  }
+
+  let merged = 0;
+  for (const [key, group] of groups.entries()) {
+    group.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const [target, ...sources] = group;
+
+    for (const source of sources) {
+      await mergeVersions(source.id!, target.id!);
+      merged++;
+    }
+
+    // Name the version after its key, disambiguated by format if another version has it already
+    let versionName = key;
+    const clash = await db.versions.where({ songId, versionName }).first();
+    if (clash && clash.id !== target.id) {
+      versionName = `${versionName} (${target.formats[target.selectedFormatIndex]?.format ?? target.formats[0].format})`;
+    }
+
+    // Rule-driven merges aren't manual, keep the target eligible for future regrouping
+    await db.versions.update(target.id!, {
+      versionName,
+      ...parseVersionInfo(versionName),
+      manuallyGrouped: target.manuallyGrouped ?? false,
+    });
+  }
+
+  return merged;
+}
@@ -0,0 +1,84 @@
+/**
+ * Version ordinal and date parsing from version names
+ */
+
+export interface VersionInfo {
+  versionNumber: number | null; // Ordinal, minor revisions as fractions: "v3.2" → 3.002
+  versionDate: string | null;   // ISO date (YYYY-MM-DD) found in the name
+}
+
+// Dates are only accepted when they aren't part of a longer run of digits
+const ISO_DATE = /(?<!\d)(\d{4})[-_.](\d{1,2})[-_.](\d{1,2})(?!\d)/;
+const COMPACT_DATE = /(?<!\d)(\d{4})(\d{2})(\d{2})(?!\d)/;
+const SHORT_DATE = /(?<!\d)(\d{2})(\d{2})(\d{2})(?!\d)/;
+
+// Ordinals in order of confidence
+const PREFIXED_VERSION = /(?:^|[^a-z])v(?:er(?:sion)?)?[\s._-]?(\d+)(?:\.(\d+))?(?!\d)/i;
+const KEYWORD_VERSION = /(?:^|[^a-z])(?:rev(?:ision)?|take|mix|draft|bounce)[\s._-]?(\d+|[a-z])(?![a-z\d])/i;
+const TRAILING_NUMBER = /[\s._-]\(?(\d{1,3})\)?$/;
+
+/**
+ * Pull a version ordinal and date out of a version name
+ * Examples: "Mix v3" → 3, "song_03" → 3, "Song rev B" → 2, "Mix 2024-05-12" / "Mix 240512" → 2024-05-12
+ */
+export function parseVersionInfo(name: string): VersionInfo {
+  const { date, rest } = extractDate(name);
+  return {
+    versionNumber: extractOrdinal(rest),
+    versionDate: date,
+  };
+}
+
+function extractDate(name: string): { date: string | null; rest: string } {
+  const candidates: Array<[RegExp, (m: RegExpExecArray) => [number, number, number]]> = [
+    [ISO_DATE, (m) => [parseInt(m[1]), parseInt(m[2]), parseInt(m[3])]],
+    [COMPACT_DATE, (m) => [parseInt(m[1]), parseInt(m[2]), parseInt(m[3])]],
+    [SHORT_DATE, (m) => [2000 + parseInt(m[1]), parseInt(m[2]), parseInt(m[3])]],
+  ];
+
+  for (const [pattern, toParts] of candidates) {
+    const match = pattern.exec(name);
+    if (!match) continue;
+
+    const [year, month, day] = toParts(match);
+    if (!isValidDate(year, month, day)) continue;
+
+    const date = `${year}-${pad(month)}-${pad(day)}`;
+    const rest = name.slice(0, match.index) + name.slice(match.index + match[0].length);
+    return { date, rest };
+  }
+
+  return { date: null, rest: name };
+}
+
+function extractOrdinal(name: string): number | null {
+  const prefixed = PREFIXED_VERSION.exec(name);
+  if (prefixed) {
+    const major = parseInt(prefixed[1]);
+    const minor = prefixed[2] ? parseInt(prefixed[2]) : 0;
+    return major + minor / 1000;
+  }
+
+  const keyword = KEYWORD_VERSION.exec(name);
+  if (keyword) {
+    const value = keyword[1];
+    // Letter revisions count from A = 1
+    return /\d/.test(value) ? parseInt(value) : value.toUpperCase().charCodeAt(0) - 64;
+  }
+
+  const trailing = TRAILING_NUMBER.exec(name.trim());
+  if (trailing) {
+    return parseInt(trailing[1]);
+  }
+
+  return null;
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  if (year < 1990 || year > 2100 || month < 1 || month > 12 || day < 1) return false;
+  return day <= new Date(year, month, 0).getDate();
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
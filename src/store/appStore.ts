@@ -1,10 +1,21 @@
 import { create } from 'zustand';
 import { Tag, Note, Image, SongWithVersions, VersionWithTags } from '@shared/types';
+import { SongAccessState } from '@lib/songAccess';
+import { MismatchThresholds, Reviewer, SmartView, VersionFilter, VersionRating } from '@lib/db';
+import { DEFAULT_MISMATCH_THRESHOLDS } from '@lib/mismatchReport';
+import { EMPTY_VERSION_FILTER } from '@lib/versionFilter';
 
 /**
  * Main application state store using Zustand
  */
 
+// A/B loop section of one version (seconds)
+export interface LoopRange {
+  versionId: number;
+  start: number;
+  end: number;
+}
+
 interface AppState {
   // Data
   songs: SongWithVersions[];
@@ -13,12 +24,23 @@ interface AppState {
   selectedVersion: VersionWithTags | null;
   notes: Note[];
   images: Image[];
+  smartViews: SmartView[];
+  reviewers: Reviewer[];
 
   // UI state
   isLoading: boolean;
   error: string | null;
   playingVersionId: number | null;
   seekRequest: { versionId: number; time: number } | null;
+  viewingImageId: number | null;
+  highlightedNoteId: number | null;
+  loop: LoopRange | null;
+  isComparing: boolean;
+  songAccess: Record<number, SongAccessState>;
+  mismatchThresholds: MismatchThresholds;
+  versionFilter: VersionFilter;
+  activeSmartViewId: number | null; // View the filter came from, cleared once it's edited
+  currentReviewerId: number | null; // Who rates and writes notes, null until someone is picked
 
   // Actions
   setSongs: (songs: SongWithVersions[]) => void;
@@ -31,13 +53,26 @@ interface AppState {
   setError: (error: string | null) => void;
   setPlayingVersionId: (versionId: number | null) => void;
   requestSeek: (versionId: number, time: number) => void;
+  setViewingImageId: (imageId: number | null) => void;
+  setHighlightedNoteId: (noteId: number | null) => void;
+  setLoop: (loop: LoopRange | null) => void;
+  setComparing: (isComparing: boolean) => void;
+  setSongAccess: (access: Record<number, SongAccessState>) => void;
+  setMismatchThresholds: (thresholds: MismatchThresholds) => void;
+  setSmartViews: (smartViews: SmartView[]) => void;
+  setVersionFilter: (filter: VersionFilter, smartViewId?: number | null) => void;
+  setReviewers: (reviewers: Reviewer[]) => void;
+  setCurrentReviewerId: (reviewerId: number | null) => void;
 
   // Helper actions
   addSong: (song: SongWithVersions) => void;
   removeSong: (songId: number) => void;
   addTag: (tag: Tag) => void;
   updateVersionRating: (versionId: number, rating: number | null) => void;
-  updateVersionFormat: (versionId: number, formatIndex: number) => void;
+  updateVersionRatings: (versionId: number, ratings: VersionRating[], rating: number | null) => void;
+  updateVersionFormat: (versionId: number, formatIndex: number, manual?: boolean) => void;
+  startLoop: (versionId: number, start: number, end: number) => void;
+  clearVersionFilter: () => void;
 }
 
 export const useAppStore = create<AppState>((set) => ({
@@ -48,10 +83,21 @@ export const useAppStore = create<AppState>((set) => ({
   selectedVersion: null,
   notes: [],
   images: [],
+  smartViews: [],
+  reviewers: [],
   isLoading: false,
   error: null,
   playingVersionId: null,
   seekRequest: null,
+  viewingImageId: null,
+  highlightedNoteId: null,
+  loop: null,
+  isComparing: false,
+  songAccess: {},
+  mismatchThresholds: DEFAULT_MISMATCH_THRESHOLDS,
+  versionFilter: EMPTY_VERSION_FILTER,
+  activeSmartViewId: null,
+  currentReviewerId: null,
 
   // Actions
   setSongs: (songs) => set({ songs }),
@@ -64,6 +110,16 @@ export const useAppStore = create<AppState>((set) => ({
   setError: (error) => set({ error }),
   setPlayingVersionId: (versionId) => set({ playingVersionId: versionId }),
   requestSeek: (versionId, time) => set({ seekRequest: { versionId, time } }),
+  setViewingImageId: (imageId) => set({ viewingImageId: imageId }),
+  setHighlightedNoteId: (noteId) => set({ highlightedNoteId: noteId }),
+  setLoop: (loop) => set({ loop }),
+  setComparing: (isComparing) => set({ isComparing }),
+  setSongAccess: (access) => set((state) => ({ songAccess: { ...state.songAccess, ...access } })),
+  setMismatchThresholds: (mismatchThresholds) => set({ mismatchThresholds }),
+  setSmartViews: (smartViews) => set({ smartViews }),
+  setVersionFilter: (versionFilter, smartViewId = null) => set({ versionFilter, activeSmartViewId: smartViewId }),
+  setReviewers: (reviewers) => set({ reviewers }),
+  setCurrentReviewerId: (currentReviewerId) => set({ currentReviewerId }),
 
   // Helper actions
   addSong: (song) => set((state) => ({ songs: [...state.songs, song] })),
@@ -88,15 +144,42 @@ export const useAppStore = create<AppState>((set) => ({
       : state.selectedVersion,
   })),
 
-  updateVersionFormat: (versionId, formatIndex) => set((state) => ({
+  // The open song is updated too, the version header reads the reviewers' ratings from it
+  updateVersionRatings: (versionId, ratings, rating) => set((state) => ({
     songs: state.songs.map((song) => ({
       ...song,
       versions: song.versions.map((v) =>
-        v.id === versionId ? { ...v, selectedFormatIndex: formatIndex } : v
+        v.id === versionId ? { ...v, ratings, rating } : v
       ),
     })),
+    selectedSong: state.selectedSong && {
+      ...state.selectedSong,
+      versions: state.selectedSong.versions.map((v) =>
+        v.id === versionId ? { ...v, ratings, rating } : v
+      ),
+    },
     selectedVersion: state.selectedVersion?.id === versionId
-      ? { ...state.selectedVersion, selectedFormatIndex: formatIndex }
+      ? { ...state.selectedVersion, rating }
       : state.selectedVersion,
   })),
+
+  updateVersionFormat: (versionId, formatIndex, manual = true) => set((state) => ({
+    songs: state.songs.map((song) => ({
+      ...song,
+      versions: song.versions.map((v) =>
+        v.id === versionId ? { ...v, selectedFormatIndex: formatIndex, formatSelectionManual: manual } : v
+      ),
+    })),
+    selectedVersion: state.selectedVersion?.id === versionId
+      ? { ...state.selectedVersion, selectedFormatIndex: formatIndex, formatSelectionManual: manual }
+      : state.selectedVersion,
+  })),
+
+  // Set a loop and jump to its start, the player picks it up through the seek request
+  startLoop: (versionId, start, end) => set({
+    loop: { versionId, start, end },
+    seekRequest: { versionId, time: start },
+  }),
+
+  clearVersionFilter: () => set({ versionFilter: EMPTY_VERSION_FILTER, activeSmartViewId: null }),
 }));